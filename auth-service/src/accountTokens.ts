@@ -0,0 +1,45 @@
+import { PrismaClient } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { hashToken } from './sessions';
+
+// Single-use tokens mailed to the user for email verification and password
+// reset. Like refresh tokens, only the sha256 is stored. Issuing a new token
+// invalidates the user's previous unused ones for the same purpose, so only
+// the most recent email works.
+
+export type TokenPurpose = 'verify_email' | 'reset_password';
+
+const TTL_MINUTES: Record<TokenPurpose, number> = {
+  verify_email: Number(process.env.VERIFY_EMAIL_TTL_MINUTES || 24 * 60),
+  reset_password: Number(process.env.RESET_PASSWORD_TTL_MINUTES || 60),
+};
+
+// Minimum time between two emails of the same purpose to the same user
+const RESEND_COOLDOWN_MS = Number(process.env.ACCOUNT_TOKEN_COOLDOWN_SECONDS || 60) * 1000;
+
+export type ConsumeResult = { ok: true; userId: string; email: string | null } | { ok: false; error: string };
+
+// Returns the raw token, or null when one was issued too recently.
+// `email` is the address being verified (the new one when changing email).
+export async function issueAccountToken(prisma: PrismaClient, userId: string, purpose: TokenPurpose, email?: string) {
+  const recent = await prisma.accountToken.findFirst({
+    where: { userId, purpose, usedAt: null, createdAt: { gt: new Date(Date.now() - RESEND_COOLDOWN_MS) } },
+    select: { id: true },
+  });
+  if (recent) return null;
+  await prisma.accountToken.updateMany({ where: { userId, purpose, usedAt: null }, data: { usedAt: new Date() } });
+  const raw = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + TTL_MINUTES[purpose] * 60 * 1000);
+  await prisma.accountToken.create({ data: { userId, purpose, email, tokenHash: hashToken(raw), expiresAt } });
+  return raw;
+}
+
+export async function consumeAccountToken(prisma: PrismaClient, raw: string, purpose: TokenPurpose): Promise<ConsumeResult> {
+  const existing = await prisma.accountToken.findUnique({ where: { tokenHash: hashToken(raw) } });
+  if (!existing || existing.purpose !== purpose || existing.usedAt) return { ok: false, error: 'invalid token' };
+  if (existing.expiresAt.getTime() <= Date.now()) return { ok: false, error: 'token expired' };
+  // Conditional update so the same token cannot be redeemed twice concurrently
+  const claimed = await prisma.accountToken.updateMany({ where: { id: existing.id, usedAt: null }, data: { usedAt: new Date() } });
+  if (claimed.count === 0) return { ok: false, error: 'invalid token' };
+  return { ok: true, userId: existing.userId, email: existing.email };
+}
@@ -0,0 +1,34 @@
+import { PrismaClient } from '@prisma/client';
+import { Kafka } from 'kafkajs';
+import { OutboxStore, startOutboxRelay } from '@yoom/events';
+
+// Publishes this service's outbox (user.deleted) to Kafka. Events are written
+// to OutboxEvent in the same transaction as the change; this only relays them.
+
+export const kafka = new Kafka({
+  clientId: 'yoom-auth-service',
+  brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
+});
+
+const OUTBOX_RETENTION_MS = Number(process.env.OUTBOX_RETENTION_HOURS || 72) * 3600 * 1000;
+
+function outboxStore(prisma: PrismaClient): OutboxStore {
+  return {
+    pending: (limit) => prisma.outboxEvent.findMany({ where: { sentAt: null }, orderBy: { createdAt: 'asc' }, take: limit }),
+    markSent: async (ids) => {
+      await prisma.outboxEvent.updateMany({ where: { id: { in: ids } }, data: { sentAt: new Date() } });
+      await prisma.outboxEvent.deleteMany({ where: { sentAt: { lt: new Date(Date.now() - OUTBOX_RETENTION_MS) } } });
+    },
+    markFailed: async (ids, error) => {
+      await prisma.outboxEvent.updateMany({ where: { id: { in: ids } }, data: { attempts: { increment: 1 }, lastError: error.slice(0, 1000) } });
+    },
+  };
+}
+
+export function startEventRelay(prisma: PrismaClient) {
+  return startOutboxRelay(outboxStore(prisma), async () => {
+    const producer = kafka.producer({ idempotent: true });
+    await producer.connect();
+    return producer;
+  }, { name: 'auth-outbox' });
+}
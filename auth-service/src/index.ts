@@ -1,28 +1,84 @@
 import { Hono } from 'hono';
+import { cors } from 'hono/cors';
 import { serve } from '@hono/node-server';
+import { getConnInfo } from '@hono/node-server/conninfo';
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import { z } from 'zod';
 import 'dotenv/config';
+import { getPublicKey, jwks, TOKEN_ALG, TOKEN_ISSUER } from './keys';
+import { issueSession, rotateRefreshToken, revokeSession, revokeAllSessions, isSessionActive } from './sessions';
+import { consumeAccountToken, issueAccountToken, TokenPurpose } from './accountTokens';
+import { createMailer } from './mailer';
+import { beginLoginAttempt, finishLoginAttempt, LoginMeta } from './loginGuard';
+import { kafka, startEventRelay } from './events';
+import { createEvent, outboxRecord } from '@yoom/events';
+import { createLogger, createMetrics, kafkaCheck, readiness, REQUEST_ID_HEADER, requestContext } from '@yoom/observability';
+
+// JSON logs (console.* included) with the request id of the current request
+const logger = createLogger('auth-service');
+logger.installConsole();
+const metrics = createMetrics();
 
 const prisma = new PrismaClient();
 const app = new Hono();
+const mailer = createMailer();
 
-const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
-app.use('*', async (c, next) => {
-  c.header('Access-Control-Allow-Origin', allowedOrigin);
-  c.header('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
-  c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  if (c.req.method === 'OPTIONS') return c.body(null, 204);
-  await next();
-});
+app.use('*', requestContext({ logger, metrics }));
+app.use('*', cors({
+  origin: process.env.ALLOWED_ORIGIN || '*',
+  allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+  exposeHeaders: [REQUEST_ID_HEADER],
+}));
 
 app.get('/health', (c) => c.json({ ok: true }));
 
-const registerSchema = z.object({ email: z.string().email(), password: z.string().min(6) });
+// Readiness: Postgres and Kafka (outbox relay) are reachable
+const checkReady = readiness({
+  postgres: () => prisma.$queryRaw`SELECT 1`,
+  kafka: kafkaCheck(kafka),
+});
+app.get('/ready', async (c) => {
+  const result = await checkReady();
+  return c.json(result, result.ok ? 200 : 503);
+});
+
+app.get('/metrics', (c) => c.text(metrics.render(), 200, { 'Content-Type': 'text/plain; version=0.0.4' }));
+
+// Public signing keys; other services verify access tokens against these
+app.get('/.well-known/jwks.json', (c) => {
+  c.header('Cache-Control', 'public, max-age=300');
+  return c.json(jwks());
+});
+
+const passwordSchema = z.string().min(6);
+const registerSchema = z.object({ email: z.string().email(), password: passwordSchema });
 const loginSchema = registerSchema;
 
+// Links in emails point at the web app, which posts the token back to us
+const APP_BASE_URL = (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const MAIL_TEMPLATES: Record<TokenPurpose, { subject: string; path: string; text: string }> = {
+  verify_email: { subject: 'Verify your email address', path: '/verify-email', text: 'Confirm your email address by opening this link:' },
+  reset_password: { subject: 'Reset your password', path: '/reset-password', text: 'Someone asked to reset your password. If it was you, open this link:' },
+};
+
+// Issue a token and mail it; failures are logged, never surfaced, so responses
+// do not reveal whether an address exists or whether a send was throttled
+async function sendAccountEmail(user: { id: string; email: string }, purpose: TokenPurpose, to = user.email) {
+  try {
+    const token = await issueAccountToken(prisma, user.id, purpose, to);
+    if (!token) return;
+    const tpl = MAIL_TEMPLATES[purpose];
+    await mailer.send({ to, subject: tpl.subject, text: `${tpl.text}\n\n${APP_BASE_URL}${tpl.path}?token=${encodeURIComponent(token)}\n` });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(`[auth] ${purpose} email failed:`, e instanceof Error ? e.message : e);
+  }
+}
+
 app.post('/register', async (c) => {
   const body = await c.req.json().catch(() => ({}));
   const parsed = registerSchema.safeParse(body);
@@ -32,55 +88,284 @@ app.post('/register', async (c) => {
   if (exists) return c.json({ error: 'email exists' }, 409);
   const hash = await bcrypt.hash(password, 10);
   const created = await prisma.user.create({ data: { email, password: hash } });
-  return c.json({ id: created.id, email: created.email, createdAt: created.createdAt });
+  void sendAccountEmail(created, 'verify_email');
+  return c.json({ id: created.id, email: created.email, emailVerified: false, createdAt: created.createdAt });
 });
 
+// x-forwarded-for is set by the client unless a trusted proxy (the gateway) sits
+// in front; then the last entry is the address that proxy saw
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+function loginMeta(c: any): LoginMeta {
+  let ip: string | null = null;
+  if (TRUST_PROXY) ip = String(c.req.header('x-forwarded-for') || '').split(',').map((p) => p.trim()).filter(Boolean).pop() || null;
+  if (!ip) { try { ip = getConnInfo(c).remote.address || null; } catch { ip = null; } }
+  return { ip, userAgent: c.req.header('user-agent') || null };
+}
+
+// Compared against when the email is unknown, so both paths cost one bcrypt check
+const DUMMY_HASH = bcrypt.hashSync('not-a-real-password', 10);
+
 app.post('/login', async (c) => {
   const body = await c.req.json().catch(() => ({}));
   const parsed = loginSchema.safeParse(body);
   if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
   const { email, password } = parsed.data;
+  const meta = loginMeta(c);
+  const key = email.toLowerCase();
+  const allowed = await beginLoginAttempt(prisma, key, meta);
   const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) return c.json({ error: 'invalid credentials' }, 401);
-  const ok = await bcrypt.compare(password, user.password);
-  if (!ok) return c.json({ error: 'invalid credentials' }, 401);
-  const secret = process.env.JWT_SECRET || 'dev-secret';
-  const token = jwt.sign({ sub: user.id, email }, secret, { expiresIn: '7d' });
-  return c.json({ token });
+  if (!allowed.ok) {
+    await finishLoginAttempt(prisma, allowed.attemptId, { userId: user?.id, success: false, reason: allowed.reason });
+    c.header('Retry-After', String(allowed.retryAfterSeconds));
+    return c.json({ error: allowed.reason === 'locked' ? 'account temporarily locked' : 'too many attempts', retryAfter: allowed.retryAfterSeconds }, 429);
+  }
+  const ok = await bcrypt.compare(password, user?.password ?? DUMMY_HASH);
+  if (!user || !ok) {
+    await finishLoginAttempt(prisma, allowed.attemptId, { userId: user?.id, success: false, reason: user ? 'invalid_password' : 'unknown_email' });
+    return c.json({ error: 'invalid credentials' }, 401);
+  }
+  const { sessionId, ...tokens } = await issueSession(prisma, user, meta);
+  await finishLoginAttempt(prisma, allowed.attemptId, { userId: user.id, success: true, sessionId });
+  return c.json(tokens);
 });
 
-// Middleware: verify JWT
-function verifyAuth(c: any): { userId: string } | null {
-  const auth = c.req.header('authorization') || c.req.header('Authorization') || '';
-  const token = auth.startsWith('Bearer ') ? auth.slice(7) : '';
-  if (!token) return null;
+// Decode a JWT and check that its session has not been revoked
+async function decodeToken(token: string): Promise<{ userId: string; sessionId: string; exp?: number } | null> {
   try {
-    const secret = process.env.JWT_SECRET || 'dev-secret';
-    const decoded = jwt.verify(token, secret) as JwtPayload & { sub?: string };
-    if (!decoded?.sub) return null;
-    return { userId: String(decoded.sub) };
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    const key = kid ? getPublicKey(kid) : null;
+    if (!key) return null;
+    const decoded = jwt.verify(token, key, { algorithms: [TOKEN_ALG], issuer: TOKEN_ISSUER }) as JwtPayload & { sub?: string; sid?: string };
+    if (!decoded?.sub || !decoded.sid) return null;
+    if (!(await isSessionActive(prisma, decoded.sid))) return null;
+    return { userId: String(decoded.sub), sessionId: decoded.sid, exp: decoded.exp };
   } catch {
     return null;
   }
 }
 
-// GET /me: current user
+// Middleware: verify JWT
+async function verifyAuth(c: any): Promise<{ userId: string; sessionId: string } | null> {
+  const auth = c.req.header('authorization') || c.req.header('Authorization') || '';
+  const token = auth.startsWith('Bearer ') ? auth.slice(7) : '';
+  if (!token) return null;
+  return decodeToken(token);
+}
+
+// POST /token/refresh: rotate refresh token, returns a new pair
+const refreshSchema = z.object({ refreshToken: z.string().min(1) });
+app.post('/token/refresh', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = refreshSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
+  const result = await rotateRefreshToken(prisma, parsed.data.refreshToken);
+  if (!result.ok) return c.json({ error: result.error }, 401);
+  return c.json(result.tokens);
+});
+
+// POST /token/introspect: lets other services check that a token's session is still alive
+const introspectSchema = z.object({ token: z.string().min(1) });
+app.post('/token/introspect', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = introspectSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
+  const decoded = await decodeToken(parsed.data.token);
+  if (!decoded) return c.json({ active: false });
+  return c.json({ active: true, sub: decoded.userId, sid: decoded.sessionId, exp: decoded.exp });
+});
+
+// POST /logout: revoke the current session
+app.post('/logout', async (c) => {
+  const auth = await verifyAuth(c);
+  if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  await revokeSession(prisma, auth.sessionId);
+  return c.json({ ok: true });
+});
+
+// POST /logout-all: revoke every session of the current user
+app.post('/logout-all', async (c) => {
+  const auth = await verifyAuth(c);
+  if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const revoked = await revokeAllSessions(prisma, auth.userId);
+  return c.json({ ok: true, revoked });
+});
+
+// GET /me: current user, including private fields
+const privateUserFields = {
+  id: true, email: true, emailVerifiedAt: true, displayName: true, avatarKey: true, bio: true, createdAt: true, updatedAt: true,
+} as const;
+
 app.get('/me', async (c) => {
-  const auth = verifyAuth(c);
+  const auth = await verifyAuth(c);
   if (!auth) return c.json({ error: 'unauthorized' }, 401);
-  const user = await prisma.user.findUnique({ where: { id: auth.userId }, select: { id: true, email: true, createdAt: true } });
+  const user = await prisma.user.findUnique({ where: { id: auth.userId }, select: privateUserFields });
   if (!user) return c.json({ error: 'not found' }, 404);
-  return c.json(user);
+  return c.json({ ...user, emailVerified: !!user.emailVerifiedAt });
 });
 
-// GET /users/:id
+// PATCH /me: profile fields; null clears a field
+const profileSchema = z.object({
+  displayName: z.string().trim().min(1).max(50).nullable().optional(),
+  avatarKey: z.string().min(1).max(512).nullable().optional(),
+  bio: z.string().max(500).nullable().optional(),
+});
+app.patch('/me', async (c) => {
+  const auth = await verifyAuth(c);
+  if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = profileSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const user = await prisma.user.update({ where: { id: auth.userId }, data: parsed.data, select: privateUserFields });
+  return c.json({ ...user, emailVerified: !!user.emailVerifiedAt });
+});
+
+// POST /me/password: change password; every other session is signed out
+const changePasswordSchema = z.object({ currentPassword: z.string().min(1), newPassword: passwordSchema });
+app.post('/me/password', async (c) => {
+  const auth = await verifyAuth(c);
+  if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = changePasswordSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const user = await prisma.user.findUnique({ where: { id: auth.userId } });
+  if (!user) return c.json({ error: 'not found' }, 404);
+  if (!(await bcrypt.compare(parsed.data.currentPassword, user.password))) return c.json({ error: 'invalid credentials' }, 401);
+  await prisma.user.update({ where: { id: user.id }, data: { password: await bcrypt.hash(parsed.data.newPassword, 10) } });
+  await prisma.session.updateMany({ where: { userId: user.id, revokedAt: null, id: { not: auth.sessionId } }, data: { revokedAt: new Date() } });
+  return c.json({ ok: true });
+});
+
+// POST /me/email: change email. The address only changes once the link sent
+// to the new address is confirmed via POST /email/verify.
+const changeEmailSchema = z.object({ email: z.string().email(), password: z.string().min(1) });
+app.post('/me/email', async (c) => {
+  const auth = await verifyAuth(c);
+  if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = changeEmailSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const user = await prisma.user.findUnique({ where: { id: auth.userId } });
+  if (!user) return c.json({ error: 'not found' }, 404);
+  if (!(await bcrypt.compare(parsed.data.password, user.password))) return c.json({ error: 'invalid credentials' }, 401);
+  if (parsed.data.email === user.email) return c.json({ error: 'email unchanged' }, 400);
+  if (await prisma.user.findUnique({ where: { email: parsed.data.email } })) return c.json({ error: 'email exists' }, 409);
+  await sendAccountEmail(user, 'verify_email', parsed.data.email);
+  return c.json({ ok: true, pendingEmail: parsed.data.email });
+});
+
+// POST /email/verify/request: resend the verification email for the current address
+app.post('/email/verify/request', async (c) => {
+  const auth = await verifyAuth(c);
+  if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const user = await prisma.user.findUnique({ where: { id: auth.userId } });
+  if (!user) return c.json({ error: 'not found' }, 404);
+  if (user.emailVerifiedAt) return c.json({ ok: true, emailVerified: true });
+  await sendAccountEmail(user, 'verify_email');
+  return c.json({ ok: true, emailVerified: false });
+});
+
+// POST /email/verify: redeem a verification token (no login needed, the token is the proof)
+const tokenSchema = z.object({ token: z.string().min(1) });
+app.post('/email/verify', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = tokenSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
+  const result = await consumeAccountToken(prisma, parsed.data.token, 'verify_email');
+  if (!result.ok) return c.json({ error: result.error }, 400);
+  const user = await prisma.user.findUnique({ where: { id: result.userId } });
+  if (!user) return c.json({ error: 'invalid token' }, 400);
+  const email = result.email || user.email;
+  if (email !== user.email) {
+    const taken = await prisma.user.findUnique({ where: { email } });
+    if (taken) return c.json({ error: 'email exists' }, 409);
+  }
+  await prisma.user.update({ where: { id: user.id }, data: { email, emailVerifiedAt: new Date() } });
+  return c.json({ ok: true, email });
+});
+
+// POST /password/forgot: always 200 so the endpoint cannot be used to probe for accounts
+const forgotSchema = z.object({ email: z.string().email() });
+app.post('/password/forgot', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = forgotSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
+  const user = await prisma.user.findUnique({ where: { email: parsed.data.email } });
+  if (user) void sendAccountEmail(user, 'reset_password');
+  return c.json({ ok: true });
+});
+
+// POST /password/reset: set a new password with a reset token; all sessions are revoked
+const resetSchema = z.object({ token: z.string().min(1), password: passwordSchema });
+app.post('/password/reset', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = resetSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const result = await consumeAccountToken(prisma, parsed.data.token, 'reset_password');
+  if (!result.ok) return c.json({ error: result.error }, 400);
+  const user = await prisma.user.findUnique({ where: { id: result.userId } });
+  if (!user) return c.json({ error: 'invalid token' }, 400);
+  // The reset link reached the inbox, which also proves the address
+  const verified = user.emailVerifiedAt || (result.email === user.email ? new Date() : null);
+  await prisma.user.update({ where: { id: user.id }, data: { password: await bcrypt.hash(parsed.data.password, 10), emailVerifiedAt: verified } });
+  await revokeAllSessions(prisma, user.id);
+  return c.json({ ok: true });
+});
+
+// DELETE /me: delete the account. Sessions and tokens go with it; the other
+// services clean up the user's data when they receive user.deleted.
+const deleteAccountSchema = z.object({ password: z.string().min(1) });
+app.delete('/me', async (c) => {
+  const auth = await verifyAuth(c);
+  if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = deleteAccountSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const user = await prisma.user.findUnique({ where: { id: auth.userId } });
+  if (!user) return c.json({ error: 'not found' }, 404);
+  if (!(await bcrypt.compare(parsed.data.password, user.password))) return c.json({ error: 'invalid credentials' }, 401);
+  await prisma.$transaction([
+    prisma.user.delete({ where: { id: user.id } }),
+    prisma.outboxEvent.create({ data: outboxRecord(createEvent('user.deleted', { userId: user.id }), user.id) }),
+  ]);
+  return c.json({ ok: true });
+});
+
+// GET /me/sessions: active sessions and recent login activity (successes and failures)
+app.get('/me/sessions', async (c) => {
+  const auth = await verifyAuth(c);
+  if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const limit = Math.min(Math.max(Number(c.req.query('limit')) || 20, 1), 100);
+  const [sessions, events] = await Promise.all([
+    prisma.session.findMany({
+      where: { userId: auth.userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, ip: true, userAgent: true, createdAt: true },
+    }),
+    prisma.loginEvent.findMany({
+      where: { userId: auth.userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: { id: true, success: true, reason: true, ip: true, userAgent: true, sessionId: true, createdAt: true },
+    }),
+  ]);
+  return c.json({
+    sessions: sessions.map((s) => ({ ...s, current: s.id === auth.sessionId })),
+    activity: events,
+  });
+});
+
+// GET /users/:id: public profile, never includes the email
 app.get('/users/:id', async (c) => {
   const id = c.req.param('id');
-  const user = await prisma.user.findUnique({ where: { id }, select: { id: true, email: true, createdAt: true } });
+  const user = await prisma.user.findUnique({ where: { id }, select: { id: true, displayName: true, avatarKey: true, bio: true, createdAt: true } });
   if (!user) return c.json({ error: 'not found' }, 404);
   return c.json(user);
 });
 
+// Publish outbox events (user.deleted) to Kafka
+startEventRelay(prisma);
+
 const port = Number(process.env.PORT || 4002);
 serve({ fetch: app.fetch, port }, () => {
   // eslint-disable-next-line no-console
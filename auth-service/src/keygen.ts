@@ -0,0 +1,14 @@
+import { generateKeyPairSync } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import 'dotenv/config';
+
+// Writes a new RSA signing key to AUTH_KEYS_DIR as `<kid>.pem`.
+// Kids are date-prefixed so the newest key sorts last and becomes active by default.
+const dir = process.env.AUTH_KEYS_DIR || path.resolve('keys');
+const kid = process.argv[2] || `${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${Date.now().toString(36)}`;
+const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+fs.mkdirSync(dir, { recursive: true });
+fs.writeFileSync(path.join(dir, `${kid}.pem`), privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+// eslint-disable-next-line no-console
+console.log(`wrote signing key ${kid} to ${dir}`);
@@ -0,0 +1,51 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Signing keys live as `<kid>.pem` (PKCS#8 RSA private keys) in AUTH_KEYS_DIR.
+// AUTH_ACTIVE_KID picks the key used for new tokens (default: last kid by name);
+// every key in the directory stays published in the JWKS, so rotating is
+// "add a new file, switch the active kid, delete the old file once its tokens expired".
+
+export const TOKEN_ALG = 'RS256';
+export const TOKEN_ISSUER = process.env.AUTH_ISSUER || 'yoom-auth';
+
+export type SigningKey = { kid: string; privateKey: KeyObject; publicKey: KeyObject };
+
+function loadKeys(): SigningKey[] {
+  const dir = process.env.AUTH_KEYS_DIR || path.resolve('keys');
+  const loaded: SigningKey[] = [];
+  if (fs.existsSync(dir)) {
+    for (const file of fs.readdirSync(dir).filter((f) => f.endsWith('.pem')).sort()) {
+      const privateKey = createPrivateKey(fs.readFileSync(path.join(dir, file)));
+      loaded.push({ kid: path.basename(file, '.pem'), privateKey, publicKey: createPublicKey(privateKey) });
+    }
+  }
+  if (loaded.length === 0) {
+    // Dev fallback: tokens become invalid on restart
+    // eslint-disable-next-line no-console
+    console.warn(`[auth] no signing keys in ${dir}, using an ephemeral key (run npm run keys:generate)`);
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    loaded.push({ kid: `dev-${Date.now().toString(36)}`, privateKey, publicKey });
+  }
+  return loaded;
+}
+
+const keys = loadKeys();
+const activeKid = process.env.AUTH_ACTIVE_KID || keys[keys.length - 1].kid;
+const activeKey = keys.find((k) => k.kid === activeKid);
+if (!activeKey) throw new Error(`AUTH_ACTIVE_KID ${activeKid} not found in signing keys`);
+
+export function getActiveKey(): SigningKey {
+  return activeKey!;
+}
+
+export function getPublicKey(kid: string): KeyObject | null {
+  return keys.find((k) => k.kid === kid)?.publicKey || null;
+}
+
+export function jwks() {
+  return {
+    keys: keys.map((k) => ({ ...k.publicKey.export({ format: 'jwk' }), kid: k.kid, use: 'sig', alg: TOKEN_ALG })),
+  };
+}
@@ -0,0 +1,91 @@
+import { PrismaClient } from '@prisma/client';
+
+// Login throttling, derived from the LoginEvent audit table so it needs no
+// extra store and works the same across instances. Failures are counted per
+// email (whether or not the account exists, so throttling does not reveal it)
+// and per IP, within LOGIN_FAIL_WINDOW_MINUTES. A successful login resets the
+// per-email count.
+//
+// After DELAY_AFTER failures every further attempt must wait an exponentially
+// growing delay since the last failure (1s, 2s, 4s ... capped at MAX_DELAY);
+// at LOCK_AFTER failures the email (or IP) is locked for LOCKOUT_MINUTES.
+//
+// Every attempt is recorded as 'pending' before it is checked and counts as a
+// failure until finishLoginAttempt() records the outcome, so a burst of
+// parallel attempts sees each other and cannot all slip past the limits.
+
+const WINDOW_MS = Number(process.env.LOGIN_FAIL_WINDOW_MINUTES || 15) * 60 * 1000;
+const LOCKOUT_MS = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15) * 60 * 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+const LIMITS = {
+  email: { delayAfter: Number(process.env.LOGIN_EMAIL_DELAY_AFTER || 3), lockAfter: Number(process.env.LOGIN_EMAIL_LOCK_AFTER || 10) },
+  ip: { delayAfter: Number(process.env.LOGIN_IP_DELAY_AFTER || 20), lockAfter: Number(process.env.LOGIN_IP_LOCK_AFTER || 100) },
+};
+
+// Only real (or still running) credential checks count; rejected
+// (throttled/locked) attempts are logged but do not extend the lockout
+export const FAILURE_REASONS = ['invalid_password', 'unknown_email', 'pending'];
+
+export type LoginMeta = { ip: string | null; userAgent: string | null };
+export type GuardResult = { ok: true } | { ok: false; reason: 'throttled' | 'locked'; retryAfterSeconds: number };
+
+function delayFor(failures: number, limits: { delayAfter: number; lockAfter: number }) {
+  if (failures >= limits.lockAfter) return LOCKOUT_MS;
+  if (failures < limits.delayAfter) return 0;
+  return Math.min(1000 * 2 ** (failures - limits.delayAfter), MAX_DELAY_MS);
+}
+
+async function failuresSince(prisma: PrismaClient, where: { email: string } | { ip: string }, since: Date, ownId: string) {
+  const failed = { ...where, id: { not: ownId }, success: false, reason: { in: FAILURE_REASONS }, createdAt: { gt: since } };
+  const [count, last] = await Promise.all([
+    prisma.loginEvent.count({ where: failed }),
+    prisma.loginEvent.findFirst({
+      where: failed,
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
+  ]);
+  return { count, lastAt: last?.createdAt ?? null };
+}
+
+function clip(meta: LoginMeta) {
+  return { ip: meta.ip, userAgent: meta.userAgent?.slice(0, 512) ?? null };
+}
+
+// Records the attempt, then decides whether it may go on to the password check.
+// Must be called before checking the password; pass attemptId to finishLoginAttempt.
+export async function beginLoginAttempt(prisma: PrismaClient, email: string, meta: LoginMeta, now = Date.now()): Promise<GuardResult & { attemptId: string }> {
+  const attempt = await prisma.loginEvent.create({ data: { email, success: false, reason: 'pending', ...clip(meta) }, select: { id: true } });
+  const windowStart = new Date(now - WINDOW_MS);
+  const lastSuccess = await prisma.loginEvent.findFirst({
+    where: { email, success: true, createdAt: { gt: windowStart } },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+  const checks = [{ ...(await failuresSince(prisma, { email }, lastSuccess?.createdAt ?? windowStart, attempt.id)), limits: LIMITS.email }];
+  if (meta.ip) checks.push({ ...(await failuresSince(prisma, { ip: meta.ip }, windowStart, attempt.id)), limits: LIMITS.ip });
+
+  let wait = 0;
+  let locked = false;
+  for (const { count, lastAt, limits } of checks) {
+    if (!lastAt) continue;
+    const remaining = lastAt.getTime() + delayFor(count, limits) - now;
+    if (remaining > wait) wait = remaining;
+    if (count >= limits.lockAfter && remaining > 0) locked = true;
+  }
+  if (wait <= 0) return { ok: true, attemptId: attempt.id };
+  return { ok: false, reason: locked ? 'locked' : 'throttled', retryAfterSeconds: Math.ceil(wait / 1000), attemptId: attempt.id };
+}
+
+// Replaces the pending record with the outcome
+export async function finishLoginAttempt(
+  prisma: PrismaClient,
+  attemptId: string,
+  outcome: { userId?: string | null; success: boolean; reason?: string; sessionId?: string },
+) {
+  await prisma.loginEvent.update({
+    where: { id: attemptId },
+    data: { userId: outcome.userId ?? null, success: outcome.success, reason: outcome.reason ?? null, sessionId: outcome.sessionId ?? null },
+  });
+}
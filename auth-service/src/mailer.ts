@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+// Outgoing mail goes through a Mailer so the transport can be swapped without
+// touching the account flows. MAILER picks the built-in transport:
+//   console (default) - prints the message, for local development
+//   file              - writes one JSON file per message to MAIL_OUTBOX_DIR
+// A real provider (SMTP, SES, ...) only needs to implement `send`.
+
+export type MailMessage = { to: string; subject: string; text: string };
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export function consoleMailer(): Mailer {
+  return {
+    async send(message) {
+      // eslint-disable-next-line no-console
+      console.log(`[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+    },
+  };
+}
+
+export function fileMailer(dir: string): Mailer {
+  return {
+    async send(message) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.json`);
+      await fs.promises.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    },
+  };
+}
+
+export function createMailer(): Mailer {
+  const kind = process.env.MAILER || 'console';
+  if (kind === 'file') return fileMailer(process.env.MAIL_OUTBOX_DIR || path.resolve('mail-outbox'));
+  if (kind !== 'console') throw new Error(`unknown MAILER ${kind}`);
+  return consoleMailer();
+}
@@ -0,0 +1,82 @@
+import { PrismaClient } from '@prisma/client';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getActiveKey, TOKEN_ALG, TOKEN_ISSUER } from './keys';
+
+// Short-lived access tokens; long-lived, single-use refresh tokens
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS || 15 * 60);
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+export type TokenPair = { token: string; refreshToken: string; expiresIn: number };
+export type RotateResult = { ok: true; tokens: TokenPair } | { ok: false; error: string };
+
+export function hashToken(raw: string) {
+  return createHash('sha256').update(raw).digest('hex');
+}
+
+function signAccessToken(user: { id: string; email: string }, sessionId: string) {
+  const key = getActiveKey();
+  return jwt.sign({ sub: user.id, email: user.email, sid: sessionId }, key.privateKey, {
+    algorithm: TOKEN_ALG,
+    keyid: key.kid,
+    issuer: TOKEN_ISSUER,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    jwtid: randomUUID(),
+  });
+}
+
+async function createRefreshToken(prisma: PrismaClient, sessionId: string) {
+  const raw = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.refreshToken.create({ data: { sessionId, tokenHash: hashToken(raw), expiresAt } });
+  return raw;
+}
+
+// Start a new session (token family) for a freshly authenticated user
+export async function issueSession(
+  prisma: PrismaClient,
+  user: { id: string; email: string },
+  meta: { ip?: string | null; userAgent?: string | null } = {},
+): Promise<TokenPair & { sessionId: string }> {
+  const session = await prisma.session.create({ data: { userId: user.id, ip: meta.ip ?? null, userAgent: meta.userAgent?.slice(0, 512) ?? null } });
+  const refreshToken = await createRefreshToken(prisma, session.id);
+  return { token: signAccessToken(user, session.id), refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS, sessionId: session.id };
+}
+
+// Exchange a refresh token for a new pair. A token that was already rotated
+// is treated as stolen: the whole family is revoked.
+export async function rotateRefreshToken(prisma: PrismaClient, raw: string): Promise<RotateResult> {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(raw) },
+    include: { session: { include: { user: { select: { id: true, email: true } } } } },
+  });
+  if (!existing || existing.session.revokedAt) return { ok: false, error: 'invalid refresh token' };
+  if (existing.usedAt) {
+    await revokeSession(prisma, existing.sessionId);
+    return { ok: false, error: 'refresh token reuse detected' };
+  }
+  if (existing.expiresAt.getTime() <= Date.now()) return { ok: false, error: 'refresh token expired' };
+  // Conditional update so two concurrent refreshes cannot both win
+  const claimed = await prisma.refreshToken.updateMany({ where: { id: existing.id, usedAt: null }, data: { usedAt: new Date() } });
+  if (claimed.count === 0) {
+    await revokeSession(prisma, existing.sessionId);
+    return { ok: false, error: 'refresh token reuse detected' };
+  }
+  const refreshToken = await createRefreshToken(prisma, existing.sessionId);
+  const token = signAccessToken(existing.session.user, existing.sessionId);
+  return { ok: true, tokens: { token, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS } };
+}
+
+export async function revokeSession(prisma: PrismaClient, sessionId: string) {
+  await prisma.session.updateMany({ where: { id: sessionId, revokedAt: null }, data: { revokedAt: new Date() } });
+}
+
+export async function revokeAllSessions(prisma: PrismaClient, userId: string) {
+  const res = await prisma.session.updateMany({ where: { userId, revokedAt: null }, data: { revokedAt: new Date() } });
+  return res.count;
+}
+
+export async function isSessionActive(prisma: PrismaClient, sessionId: string) {
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { revokedAt: true } });
+  return !!session && !session.revokedAt;
+}
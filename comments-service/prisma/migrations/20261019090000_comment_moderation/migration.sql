@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "moderationReason" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'visible';
+
+-- CreateIndex
+CREATE INDEX "Comment_videoId_status_idx" ON "Comment"("videoId", "status");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "replyToId" TEXT,
+ADD COLUMN     "replyToUserId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Comment_replyToId_idx" ON "Comment"("replyToId");
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "offsetMs" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ChatReplay" (
+    "videoId" TEXT NOT NULL,
+    "streamStartedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3) NOT NULL,
+    "commentCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatReplay_pkey" PRIMARY KEY ("videoId")
+);
+
+-- CreateIndex
+CREATE INDEX "Comment_videoId_offsetMs_idx" ON "Comment"("videoId", "offsetMs");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "depth" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rootId" TEXT;
+
+-- Backfill existing replies whose parent chain is stored
+WITH RECURSIVE "thread" AS (
+    SELECT "id", "id" AS "root", 0 AS "depth" FROM "Comment" WHERE "replyToId" IS NULL
+    UNION ALL
+    SELECT c."id", t."root", t."depth" + 1 FROM "Comment" c JOIN "thread" t ON c."replyToId" = t."id"
+)
+UPDATE "Comment" c SET "rootId" = t."root", "depth" = t."depth"
+FROM "thread" t WHERE c."id" = t."id" AND t."depth" > 0;
+
+-- CreateIndex
+CREATE INDEX "Comment_rootId_idx" ON "Comment"("rootId");
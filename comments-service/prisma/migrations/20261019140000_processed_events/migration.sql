@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "ProcessedEvent" (
+    "eventId" TEXT NOT NULL,
+    "consumer" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProcessedEvent_pkey" PRIMARY KEY ("eventId","consumer")
+);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN "dedupeKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Notification_dedupeKey_key" ON "Notification"("dedupeKey");
@@ -0,0 +1,46 @@
+// Opaque keyset cursors: base64url of { t: createdAt in ms, id }. Rows are
+// ordered by (createdAt, id) so pages stay stable while new rows arrive.
+
+export type Cursor = { t: number; id: string };
+
+export function encodeCursor(row: { createdAt: Date | string; id: string }): string {
+  return encodeKey({ t: new Date(row.createdAt).getTime(), id: row.id });
+}
+
+// For orderings on another numeric column (e.g. replay offsets)
+export function encodeKey(key: Cursor): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+// undefined: no cursor given; null: malformed
+export function decodeCursor(raw: string | undefined): Cursor | null | undefined {
+  if (!raw) return undefined;
+  try {
+    const c = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    return typeof c?.t === 'number' && typeof c?.id === 'string' ? { t: c.t, id: c.id } : null;
+  } catch { return null; }
+}
+
+export function parseLimit(raw: string | undefined, fallback: number, max: number) {
+  const n = Math.floor(Number(raw));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, max) : fallback;
+}
+
+// Prisma filter for rows strictly after the cursor in the given direction
+export function keysetWhere(cursor: Cursor, direction: 'asc' | 'desc') {
+  const op = direction === 'desc' ? 'lt' : 'gt';
+  const at = new Date(cursor.t);
+  return { OR: [{ createdAt: { [op]: at } }, { createdAt: at, id: { [op]: cursor.id } }] };
+}
+
+// Same ordering as keysetWhere, for items held in memory (Redis hot list)
+export function compareKeys(a: Cursor, b: Cursor) {
+  return a.t - b.t || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+// Accepts epoch milliseconds or an ISO timestamp; undefined: not given; null: malformed
+export function parseTime(raw: string | undefined): number | null | undefined {
+  if (!raw) return undefined;
+  const t = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  return Number.isFinite(t) ? t : null;
+}
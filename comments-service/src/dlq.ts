@@ -0,0 +1,146 @@
+import type { Kafka, KafkaMessage } from 'kafkajs';
+import { kafka, TOPIC_COMMENTS, TOPIC_COMMENTS_DLQ } from './kafka';
+import { DLQ_HEADERS } from './persist';
+import 'dotenv/config';
+
+// Admin tooling for the comments DLQ:
+//   npm run dlq -- inspect [--limit 50]
+//   npm run dlq -- replay  [--limit 50] [--all]
+// `replay` republishes the original key/value to `comments` and commits its own
+// consumer group, so a message is replayed once. Messages that failed to parse
+// are skipped unless --all is given (they would only fail again).
+
+export type DlqEntry = {
+  partition: number;
+  offset: string;
+  key: string | null;
+  value: string | null;
+  reason: string;
+  error: string;
+  attempts: number;
+  source: string;
+  failedAt: string;
+};
+
+const REPLAY_GROUP = 'comments-dlq-replay';
+const IDLE_TIMEOUT_MS = 5000;
+
+function header(message: KafkaMessage, name: string): string {
+  const v = message.headers?.[name];
+  if (v === undefined) return '';
+  return (Array.isArray(v) ? v[0] : v)?.toString() || '';
+}
+
+export function describe(partition: number, message: KafkaMessage): DlqEntry {
+  return {
+    partition,
+    offset: message.offset,
+    key: message.key?.toString() ?? null,
+    value: message.value?.toString() ?? null,
+    reason: header(message, DLQ_HEADERS.reason),
+    error: header(message, DLQ_HEADERS.error),
+    attempts: Number(header(message, DLQ_HEADERS.attempts)) || 0,
+    source: `${header(message, DLQ_HEADERS.topic)}/${header(message, DLQ_HEADERS.partition)}@${header(message, DLQ_HEADERS.offset)}`,
+    failedAt: header(message, DLQ_HEADERS.failedAt),
+  };
+}
+
+// Reads the DLQ from the group's position up to the current end of the topic.
+// `handle` returns false to stop before the message (it is then not committed).
+async function drain(client: Kafka, groupId: string, commit: boolean, handle: (partition: number, message: KafkaMessage) => Promise<boolean>) {
+  const admin = client.admin();
+  await admin.connect();
+  const ends = await admin.fetchTopicOffsets(TOPIC_COMMENTS_DLQ);
+  const committed = await admin.fetchOffsets({ groupId, topics: [TOPIC_COMMENTS_DLQ] }).catch(() => []);
+  await admin.disconnect();
+  const start = new Map<number, bigint>();
+  for (const t of committed) for (const p of t.partitions) start.set(p.partition, BigInt(p.offset === '-1' ? 0 : p.offset));
+  const pending = new Set(ends.filter((p) => BigInt(p.high) > (start.get(p.partition) ?? BigInt(p.low))).map((p) => p.partition));
+  const high = new Map(ends.map((p) => [p.partition, BigInt(p.high)]));
+  if (pending.size === 0) return;
+
+  const consumer = client.consumer({ groupId });
+  await consumer.connect();
+  await consumer.subscribe({ topic: TOPIC_COMMENTS_DLQ, fromBeginning: true });
+  await new Promise<void>((resolve, reject) => {
+    let idle = setTimeout(resolve, IDLE_TIMEOUT_MS * 2);
+    const finish = () => { clearTimeout(idle); resolve(); };
+    consumer.run({
+      autoCommit: commit,
+      eachBatchAutoResolve: false,
+      eachBatch: async ({ batch, resolveOffset, commitOffsetsIfNecessary }) => {
+        clearTimeout(idle);
+        idle = setTimeout(resolve, IDLE_TIMEOUT_MS);
+        for (const message of batch.messages) {
+          if (!pending.has(batch.partition)) break;
+          if (!(await handle(batch.partition, message))) { pending.clear(); break; }
+          resolveOffset(message.offset);
+          if (BigInt(message.offset) + 1n >= (high.get(batch.partition) ?? 0n)) pending.delete(batch.partition);
+        }
+        if (commit) await commitOffsetsIfNecessary();
+        if (pending.size === 0) finish();
+      },
+    }).catch(reject);
+  });
+  await consumer.disconnect();
+}
+
+export async function inspect(client: Kafka, limit: number): Promise<DlqEntry[]> {
+  const entries: DlqEntry[] = [];
+  // Throwaway group so inspecting never moves the replay position
+  await drain(client, `comments-dlq-inspect-${Date.now()}`, false, async (partition, message) => {
+    if (entries.length >= limit) return false;
+    entries.push(describe(partition, message));
+    return true;
+  });
+  return entries;
+}
+
+export async function replay(client: Kafka, limit: number, includeInvalid: boolean) {
+  const producer = client.producer();
+  await producer.connect();
+  let replayed = 0;
+  let skipped = 0;
+  try {
+    await drain(client, REPLAY_GROUP, true, async (partition, message) => {
+      if (replayed + skipped >= limit) return false;
+      if (!includeInvalid && header(message, DLQ_HEADERS.reason) === 'invalid_message') { skipped++; return true; }
+      await producer.send({
+        topic: TOPIC_COMMENTS,
+        messages: [{ key: message.key, value: message.value, headers: { 'x-replayed-from-dlq': `${partition}@${message.offset}` } }],
+      });
+      replayed++;
+      return true;
+    });
+  } finally {
+    await producer.disconnect();
+  }
+  return { replayed, skipped };
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const limitIdx = args.indexOf('--limit');
+  const limit = limitIdx >= 0 ? Math.max(Number(args[limitIdx + 1]) || 0, 1) : Number.MAX_SAFE_INTEGER;
+  if (command === 'inspect') {
+    const entries = await inspect(kafka, limit === Number.MAX_SAFE_INTEGER ? 50 : limit);
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify(entries, null, 2));
+  } else if (command === 'replay') {
+    const result = await replay(kafka, limit, args.includes('--all'));
+    // eslint-disable-next-line no-console
+    console.log(`Replayed ${result.replayed} messages to ${TOPIC_COMMENTS}, skipped ${result.skipped} invalid.`);
+  } else {
+    // eslint-disable-next-line no-console
+    console.error('usage: dlq inspect [--limit N] | dlq replay [--limit N] [--all]');
+    process.exit(2);
+  }
+}
+
+if (process.argv[1] && /dlq\.(ts|js)$/.test(process.argv[1])) {
+  main().then(() => process.exit(0)).catch((e) => {
+    // eslint-disable-next-line no-console
+    console.error('DLQ command failed:', e);
+    process.exit(1);
+  });
+}
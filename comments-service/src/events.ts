@@ -0,0 +1,41 @@
+import { PrismaClient } from '@prisma/client';
+import { EventHandlers, EventType, handleEventMessage, OnceFn, topicsFor } from '@yoom/events';
+import { kafka } from './kafka';
+
+// Consumer for other services' domain events. The handlers here fan out
+// (notifications to every follower) or touch Redis, so they do not run inside
+// one database transaction: each handler must be idempotent, and the event id
+// is recorded in ProcessedEvent only after it succeeded. Redelivered events
+// are skipped; an event that failed part-way is run again in full.
+
+export function startEventConsumer(prisma: PrismaClient, groupId: string, handlers: EventHandlers<PrismaClient>) {
+  const once: OnceFn<PrismaClient> = async (eventId, handle) => {
+    const seen = await prisma.processedEvent.findUnique({ where: { eventId_consumer: { eventId, consumer: groupId } } });
+    if (seen) return false;
+    await handle(prisma);
+    await prisma.processedEvent.createMany({ data: [{ eventId, consumer: groupId }], skipDuplicates: true });
+    return true;
+  };
+  const topics = topicsFor(Object.keys(handlers) as EventType[]);
+  const consumer = kafka.consumer({ groupId });
+  const deadLetter = kafka.producer({ idempotent: true });
+
+  // Offsets are committed only after a message was handled (or parked on the
+  // DLQ), so events received before a crash or restart are delivered again
+  async function start() {
+    try {
+      await deadLetter.connect();
+      await consumer.connect();
+      await consumer.subscribe({ topics, fromBeginning: true });
+      await consumer.run({ eachMessage: async ({ message }) => { await handleEventMessage(message.value, handlers, once, { name: groupId, deadLetter }); } });
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error(`[${groupId}] consumer failed to start, retrying:`, e instanceof Error ? e.message : e);
+      await consumer.disconnect().catch(() => { });
+      await deadLetter.disconnect().catch(() => { });
+      setTimeout(start, 5000).unref();
+    }
+  }
+  start();
+  return consumer;
+}
@@ -1,14 +1,35 @@
 import { Hono } from 'hono';
+import { cors } from 'hono/cors';
 import { serve } from '@hono/node-server';
-import { PrismaClient } from '@prisma/client';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import 'dotenv/config';
 import { EventEmitter } from 'events';
-import { randomUUID } from 'crypto';
+import { randomUUID, timingSafeEqual } from 'crypto';
 import { WebSocketServer } from 'ws';
 import Redis from 'ioredis';
 import { kafka, TOPIC_COMMENTS } from './kafka';
 import { Producer } from 'kafkajs';
+import { createAuth, AuthUser } from '@yoom/auth';
+import { createRateLimiter, LimitResult, MAX_SLOW_MODE_SECONDS } from './ratelimit';
+import { canModerate, checkCommentAccess, CommentAccess, getRoomInfo, invalidateRoom, isAdmin, ROOM_INVALIDATE_CHANNEL } from './rooms';
+import { Cursor, compareKeys, decodeCursor, encodeCursor, encodeKey, keysetWhere, parseLimit, parseTime } from './cursor';
+import { createModeration, ModerationStage, Verdict } from './moderation';
+import { createPresence, PRESENCE_INTERVAL_MS } from './presence';
+import { createNotifier, NOTIFICATION_TYPES } from './notifications';
+import { CachedComment, createThreads, ResolveResult } from './threads';
+import { createCommentVolume } from './volume';
+import { ClientFrame, errorFrame, parseClientFrame, PROTOCOL_VERSION, ServerFrame } from './protocol';
+import { startEventConsumer } from './events';
+import { createLogger, createMetrics, kafkaCheck, propagateRequestId, readiness, ReadinessCheck, REQUEST_ID_HEADER, requestContext } from '@yoom/observability';
+
+// JSON logs (console.* included) with the request id of the current request,
+// which is also passed on to feed-service calls
+const logger = createLogger('comments-service');
+logger.installConsole();
+propagateRequestId();
+const metrics = createMetrics();
 // Fallback type for ws when @types/ws is not installed
 type WS = any;
 
@@ -17,76 +38,262 @@ type WS = any;
 const prisma = new PrismaClient();
 const app = new Hono();
 const producer = kafka.producer();
+// Sender identity always comes from the auth-service token, never from the payload
+const { verify, verifyToken } = createAuth();
 
-// CORS (simple)
-const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
-app.use('*', async (c, next) => {
-  c.header('Access-Control-Allow-Origin', allowedOrigin);
-  c.header('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
-  c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  if (c.req.method === 'OPTIONS') return c.body(null, 204);
-  await next();
-});
+app.use('*', requestContext({ logger, metrics }));
+app.use('*', cors({
+  origin: process.env.ALLOWED_ORIGIN || '*',
+  allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+  exposeHeaders: [REQUEST_ID_HEADER],
+}));
 
 // Health
 app.get('/health', (c) => c.json({ ok: true }));
 
-// List comments by videoId
+// Readiness: Postgres, Kafka and (when configured) Redis are reachable
+app.get('/ready', async (c) => {
+  const checks: Record<string, ReadinessCheck> = {
+    postgres: () => prisma.$queryRaw`SELECT 1`,
+    kafka: kafkaCheck(kafka),
+  };
+  if (redisPublisher) checks.redis = () => redisPublisher.ping();
+  const result = await readiness(checks)();
+  return c.json(result, result.ok ? 200 : 503);
+});
+
+app.get('/metrics', (c) => c.text(metrics.render(), 200, { 'Content-Type': 'text/plain; version=0.0.4' }));
+
+// Redis keeps the newest HOT_LIST_MAX comments per room for 24h
+const HOT_LIST_MAX = 500;
+const PUBLIC_COMMENT_FIELDS = { id: true, videoId: true, userId: true, content: true, createdAt: true, replyToId: true, replyToUserId: true, rootId: true, depth: true, offsetMs: true } as const;
+
+type PageQuery = { videoId: string; scope: string; order: 'asc' | 'desc'; limit: number; cursor?: Cursor; before?: number; after?: number };
+type CommentItem = { id: string; createdAt: string | Date; [k: string]: unknown };
+const itemKey = (x: CommentItem): Cursor => ({ t: new Date(x.createdAt).getTime(), id: x.id });
+
+// Serves a page from the hot list, or returns null when older comments may only be in Postgres
+async function hotListPage(q: PageQuery): Promise<CommentItem[] | null> {
+  if (!redisPublisher) return null;
+  let raw: string[];
+  try { raw = await redisPublisher.lrange(`chat:${q.scope}:${q.videoId}`, 0, -1); } catch { return null; }
+  if (raw.length === 0) return null;
+  const all = raw.map((s) => { try { return JSON.parse(s) as CommentItem; } catch { return null; } }).filter((x): x is CommentItem => !!x && !!x.id);
+  const dir = q.order === 'asc' ? 1 : -1;
+  const matches = all.filter((x) => {
+    const k = itemKey(x);
+    if (q.after !== undefined && k.t <= q.after) return false;
+    if (q.before !== undefined && k.t >= q.before) return false;
+    return !q.cursor || compareKeys(k, q.cursor) * dir > 0;
+  }).sort((a, b) => compareKeys(itemKey(a), itemKey(b)) * dir);
+  // A trimmed list only covers its newest HOT_LIST_MAX comments
+  if (raw.length >= HOT_LIST_MAX) {
+    const oldest = Math.min(...all.map((x) => itemKey(x).t));
+    const lower = q.cursor?.t ?? q.after;
+    if (q.order === 'asc' && (lower === undefined || lower < oldest)) return null;
+    if (q.order === 'desc' && matches.length <= q.limit) {
+      // Continue the page with older comments from Postgres
+      const last = matches[matches.length - 1];
+      const rest = await databasePage({ ...q, cursor: last ? itemKey(last) : q.cursor, limit: q.limit - matches.length });
+      return [...matches, ...rest];
+    }
+  }
+  return matches.slice(0, q.limit + 1);
+}
+
+async function databasePage(q: PageQuery): Promise<CommentItem[]> {
+  const where = {
+    AND: [
+      { videoId: q.videoId },
+      q.cursor ? keysetWhere(q.cursor, q.order) : {},
+      q.after !== undefined ? { createdAt: { gt: new Date(q.after) } } : {},
+      q.before !== undefined ? { createdAt: { lt: new Date(q.before) } } : {},
+    ],
+  };
+  return prisma.comment.findMany({ where, orderBy: [{ createdAt: q.order }, { id: q.order }], take: q.limit + 1, select: PUBLIC_COMMENT_FIELDS });
+}
+
+// List comments by videoId. Pages run newest to oldest by default (order=asc
+// walks forward, e.g. from `after` for VOD playback); items in a page are always
+// oldest first, and nextCursor works the same for Redis and Postgres pages.
 app.get('/comments', async (c) => {
   const videoId = c.req.query('videoId');
   if (!videoId) return c.json({ error: 'videoId required' }, 400);
-  const limitRaw = c.req.query('limit');
-  const limit = Math.min(Math.max(Number(limitRaw || 0) || 0, 0), 1000) || 200;
+  const limit = parseLimit(c.req.query('limit'), 200, HOT_LIST_MAX);
   const scope = (c.req.query('scope') || 'live').toLowerCase(); // live|vod
-  const key = `chat:${scope}:${videoId}`;
-  if (redisPublisher) {
-    try {
-      const arr = await redisPublisher.lrange(key, 0, limit - 1);
-      if (Array.isArray(arr) && arr.length > 0) {
-        const parsed = arr.map((s: string) => { try { return JSON.parse(s); } catch { return null; } }).filter(Boolean);
-        return c.json({ items: parsed.reverse() });
-      }
-    } catch { }
-  }
-  const itemsDesc = await prisma.comment.findMany({ where: { videoId }, take: limit, orderBy: { createdAt: 'desc' } });
-  return c.json({ items: itemsDesc.reverse() });
+  const order = c.req.query('order') === 'asc' ? 'asc' : 'desc';
+  const cursor = decodeCursor(c.req.query('cursor'));
+  const before = parseTime(c.req.query('before'));
+  const after = parseTime(c.req.query('after'));
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  if (before === null || after === null) return c.json({ error: 'invalid before/after' }, 400);
+  const q: PageQuery = { videoId, scope, order, limit, cursor, before, after };
+  const rows = (await hotListPage(q)) ?? (await databasePage(q));
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1]) : null;
+  return c.json({ items: order === 'desc' ? page.reverse() : page, nextCursor });
+});
+
+// A comment with one page of its direct replies (oldest first); every comment
+// carries replyCount so clients can expand deeper levels with the same call
+app.get('/comments/:id/thread', async (c) => {
+  const id = c.req.param('id');
+  const limit = parseLimit(c.req.query('limit'), 20, 100);
+  const cursor = decodeCursor(c.req.query('cursor'));
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  const scope = (c.req.query('scope') || 'live').toLowerCase();
+  const videoId = c.req.query('videoId');
+  let comment: Record<string, unknown> | null = await prisma.comment.findFirst({ where: { id, status: 'visible' }, select: PUBLIC_COMMENT_FIELDS });
+  // Comments that were never persisted can have no replies; they are only in the hot list
+  if (!comment && videoId) comment = await threads.fromHotList(scope, videoId, id);
+  if (!comment || (videoId && comment.videoId !== videoId)) return c.json({ error: 'not found' }, 404);
+  const rows = await prisma.comment.findMany({
+    where: { AND: [{ replyToId: id, status: 'visible' }, cursor ? keysetWhere(cursor, 'asc') : {}] },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+    select: PUBLIC_COMMENT_FIELDS,
+  });
+  const replies = rows.slice(0, limit);
+  const counts = await threads.replyCounts([id, ...replies.map((r) => r.id)]);
+  return c.json({
+    comment: { ...comment, replyCount: counts.get(id) ?? 0 },
+    replies: replies.map((r) => ({ ...r, replyCount: counts.get(r.id) ?? 0 })),
+    nextCursor: rows.length > limit ? encodeCursor(replies[replies.length - 1]) : null,
+  });
 });
 
+// x-forwarded-for is set by the client unless a trusted proxy (the gateway) sits
+// in front; then the last entry is the address that proxy saw
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+function forwardedIp(header: string | string[] | undefined, trusted = TRUST_PROXY): string {
+  if (!trusted || !header) return '';
+  const parts = String(header).split(',').map((p) => p.trim()).filter(Boolean);
+  return parts[parts.length - 1] || '';
+}
+
+// Internal callers (feed-service's /reply) forward the client ip they derived themselves
+function clientIp(c: any): string {
+  const forwarded = forwardedIp(c.req.header('x-forwarded-for'), TRUST_PROXY || isInternalCall(c));
+  if (forwarded) return forwarded;
+  try { return getConnInfo(c).remote.address || ''; } catch { return ''; }
+}
+
 // Create a comment
+// user:{id} channels carry a user's private notifications, never chat
+const isPrivateRoom = (roomId: string) => roomId.startsWith('user:');
+
 const createSchema = z.object({
-  videoId: z.string().min(1),
-  userId: z.string().min(1),
+  videoId: z.string().min(1).refine((id) => !isPrivateRoom(id), 'not a chat room'),
   content: z.string().min(1).max(2000),
+  // Parent comment in the same video; the replied-to user is taken from it
   replyToId: z.string().optional(),
-  replyToUserId: z.string().optional(),
+  // Playback position for comments on recorded videos; live streams compute it server-side
+  offsetMs: z.number().int().min(0).optional(),
   persist: z.boolean().optional(),
 });
-const PERSIST_MODE = (process.env.COMMENTS_PERSIST || 'none').toLowerCase(); // none|sample|flagged|all
+// none|sample|flagged|all; flagged comments are always persisted so moderators can review them
+const PERSIST_MODE = (process.env.COMMENTS_PERSIST || 'none').toLowerCase();
 const SAMPLE_RATE = Math.min(Math.max(Number(process.env.SAMPLE_RATE || '0') || 0, 0), 1);
 
 app.post('/comments', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
   const body = await c.req.json().catch(() => ({}));
   const parsed = createSchema.safeParse(body);
   if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
-  const { videoId, userId, content, replyToId, replyToUserId } = parsed.data;
+  const { videoId, content, replyToId, offsetMs } = parsed.data;
+  const userId = auth.userId;
+  const access = await checkCommentAccess(videoId, userId);
+  if (!access.ok) return c.json({ error: accessMessage(access) }, access.error === 'room_not_found' ? 404 : 403);
   const scope = (c.req.query('scope') || 'live').toLowerCase();
-  // Generate lightweight object first
-  const now = new Date().toISOString();
-  const temp = { id: randomUUID(), videoId, userId, content, createdAt: now, replyToId, replyToUserId } as any;
-  let created = temp as any;
+  const thread = replyToId ? await threads.resolveParent(videoId, replyToId, scope) : null;
+  if (thread && !thread.ok) return c.json({ error: 'parent comment not found in this video' }, 422);
+  const limited = await limiter.checkComment({ userId, ip: clientIp(c), roomId: videoId });
+  if (!limited.allowed) {
+    c.header('Retry-After', String(Math.ceil(limited.retryAfterMs / 1000)));
+    return c.json({ error: 'rate limited', scope: limited.scope, retryAfterMs: limited.retryAfterMs }, 429);
+  }
+  const verdict = await moderation.moderate({ roomId: videoId, userId, content });
+  if (verdict.action === 'block') return c.json({ error: 'comment rejected', reason: verdict.reason }, 422);
+  const forcePersist = c.req.query('persist') === '1' || parsed.data.persist === true;
+  const created = await deliverComment({ videoId, userId, content, offsetMs }, verdict, scope, { forcePersist, thread });
+  return c.json(created);
+});
+
+// --- Realtime: WS + Pub/Sub (Redis optional) ---
+const localBus = new EventEmitter();
+const REDIS_URL = process.env.REDIS_URL || process.env.UPSTASH_REDIS_REST_URL || '';
+const redisPublisher = REDIS_URL ? new Redis(REDIS_URL) : null;
+
+const limiter = createRateLimiter(redisPublisher);
+// Authors may hold every comment in their room for approval (their own and admins' go through)
+const holdStage: ModerationStage = async ({ roomId, userId }) => {
+  const room = await getRoomInfo(roomId);
+  return room.holdForApproval && room.ownerId !== userId && !isAdmin(userId) ? { action: 'hold', reason: 'held_for_approval' } : null;
+};
+const moderation = createModeration(redisPublisher, [holdStage]);
+const presence = createPresence(redisPublisher);
+const notifier = createNotifier(prisma, publish);
+const threads = createThreads(prisma, redisPublisher);
+const volume = createCommentVolume(redisPublisher);
+
+function accessMessage(access: Exclude<CommentAccess, { ok: true }>) {
+  return access.error.replace(/_/g, ' ');
+}
+
+function rateLimitedFrame(result: Exclude<LimitResult, { allowed: true }>, clientMsgId: string | null): ServerFrame {
+  return errorFrame('rate_limited', { clientMsgId, scope: result.scope, retryAfterMs: result.retryAfterMs });
+}
+
+// Adds a visible comment to the room's hot list (GET /comments and WS resume read it)
+async function pushToHotList(scope: string, videoId: string, item: object) {
+  if (!redisPublisher) return;
+  try {
+    const key = `chat:${scope}:${videoId}`;
+    await redisPublisher.lpush(key, JSON.stringify(item));
+    await redisPublisher.ltrim(key, 0, HOT_LIST_MAX - 1);
+    await redisPublisher.expire(key, 24 * 60 * 60);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('[redis] cache write failed:', e instanceof Error ? e.message : e);
+  }
+}
+
+// Single delivery path for HTTP and WS comments. The id generated here is the
+// one broadcast, cached in Redis and stored by the worker, so Kafka redeliveries
+// and retries are no-ops. Replies are always stored, together with a parent
+// that so far only lived in the hot list. Held comments are stored as pending
+// and only echoed to their sender until a moderator approves them.
+type CommentInput = { videoId: string; userId: string; content: string; offsetMs?: number };
+type DeliverOptions = { forcePersist?: boolean; thread?: ResolveResult | null };
+async function deliverComment(input: CommentInput, verdict: Verdict, scope: string, opts: DeliverOptions = {}) {
+  const room = await getRoomInfo(input.videoId);
+  const now = Date.now();
+  // Live chat is positioned relative to the stream start so it can be replayed with the recording
+  const offsetMs = room.kind === 'stream' ? (room.startedAt ? Math.max(now - room.startedAt.getTime(), 0) : null) : input.offsetMs ?? null;
+  const position = opts.thread?.ok ? opts.thread.position : { replyToId: null, replyToUserId: null, rootId: null, depth: 0 };
+  const unsavedParent: CachedComment | null = opts.thread?.ok ? opts.thread.unsavedParent : null;
+  const created = { id: randomUUID(), ...input, ...position, offsetMs, createdAt: new Date(now).toISOString() };
+  // Shadow-banned: echo to the sender only and keep it out of history
+  if (verdict.action === 'shadow') {
+    publish(input.videoId, { type: 'comment', item: created, visibleTo: input.userId });
+    return created;
+  }
+  const held = verdict.action === 'hold';
+  const status = held ? 'pending' : verdict.action === 'flag' ? 'flagged' : 'visible';
   // Decide persistence policy
-  const forcePersist = c.req.query('persist') === '1' || (parsed.data as any).persist === true;
-  const shouldPersist = forcePersist || PERSIST_MODE === 'all' || (PERSIST_MODE === 'sample' && Math.random() < SAMPLE_RATE);
+  const shouldPersist = opts.forcePersist || held || !!position.replyToId || room.kind === 'stream' || verdict.action === 'flag' || PERSIST_MODE === 'all' || (PERSIST_MODE === 'sample' && Math.random() < SAMPLE_RATE);
   if (shouldPersist) {
     try {
       await producer.send({
         topic: TOPIC_COMMENTS,
         messages: [
+          ...(unsavedParent ? [{ key: input.videoId, value: JSON.stringify({ ...unsavedParent, status: 'visible' }) }] : []),
           {
             // Use videoId as key for partitioning, ensuring comments for the same video go to the same partition.
-            key: videoId,
-            // Send the full temporary object. The 'id' is crucial for idempotency in the consumer.
-            value: JSON.stringify(temp),
+            key: input.videoId,
+            // The 'id' becomes the primary key, which makes the consumer idempotent.
+            value: JSON.stringify({ ...created, status, moderationReason: verdict.reason }),
           },
         ],
       });
@@ -95,30 +302,25 @@ app.post('/comments', async (c) => {
       console.error('[kafka] failed to produce message:', e instanceof Error ? e.message : e);
     }
   }
+  if (held) {
+    publish(input.videoId, { type: 'comment', item: { ...created, status }, visibleTo: input.userId });
+    return { ...created, status };
+  }
   // Broadcast immediately to ensure UX first (room channel)
-  publish(String(videoId), { type: 'comment', item: created });
-  if (replyToUserId) publish(`user:${replyToUserId}`, { type: 'reply', item: created });
-  // Offload Redis cache write to next tick to avoid blocking
-  if (redisPublisher) {
-    setImmediate(async () => {
-      try {
-        const key = `chat:${scope}:${videoId}`;
-        await redisPublisher.lpush(key, JSON.stringify(created));
-        await redisPublisher.ltrim(key, 0, 499);
-        await redisPublisher.expire(key, 24 * 60 * 60);
-      } catch (e) {
-        // eslint-disable-next-line no-console
-        console.error('[redis] cache write failed:', e instanceof Error ? e.message : e);
-      }
-    });
+  publish(input.videoId, { type: 'comment', item: created });
+  volume.record(input.videoId, now);
+  // Held comments notify nobody until a moderator approves them
+  if (verdict.action === 'allow') {
+    const base = { actorId: input.userId, roomId: input.videoId, commentId: created.id, data: { content: input.content.slice(0, 200) } };
+    const inbox = [];
+    if (position.replyToUserId) inbox.push({ ...base, userId: position.replyToUserId, type: 'reply' as const });
+    if (room.kind === 'publish' && room.ownerId && room.ownerId !== position.replyToUserId) inbox.push({ ...base, userId: room.ownerId, type: 'publish_comment' as const });
+    notifier.notifyLater(inbox);
   }
-  return c.json(created);
-});
-
-// --- Realtime: WS + Pub/Sub (Redis optional) ---
-const localBus = new EventEmitter();
-const REDIS_URL = process.env.REDIS_URL || process.env.UPSTASH_REDIS_REST_URL || '';
-const redisPublisher = REDIS_URL ? new Redis(REDIS_URL) : null;
+  // Offload Redis cache write to next tick to avoid blocking
+  setImmediate(() => pushToHotList(scope, input.videoId, created));
+  return created;
+}
 
 function publish(roomId: string, payload: any) {
   const text = typeof payload === 'string' ? payload : JSON.stringify(payload);
@@ -127,10 +329,14 @@ function publish(roomId: string, payload: any) {
   setImmediate(() => localBus.emit(`room:${roomId}`, text));
 }
 
-// --- WS server on separate port ---
-const wsPort = Number(process.env.COMMENTS_WS_PORT || 4002);
+// --- WS server on separate port (4002 is auth-service) ---
+const wsPort = Number(process.env.COMMENTS_WS_PORT || 4005);
 const wss = new WebSocketServer({ port: wsPort, clientTracking: true });
-const roomSubscribers = new Map<string, Set<WS>>();
+metrics.gauge('ws_connections', 'Open WebSocket connections on this node', () => wss.clients.size);
+// Local sockets per room, each with its presence id
+const roomSubscribers = new Map<string, Map<WS, string>>();
+const nodeId = randomUUID().slice(0, 8);
+let connSeq = 0;
 const redisSubscriber = REDIS_URL ? new Redis(REDIS_URL) : null;
 if (redisPublisher) {
   redisPublisher.on('error', (err) => {
@@ -146,11 +352,364 @@ if (redisSubscriber) {
 }
 
 if (redisSubscriber) {
+  redisSubscriber.subscribe(ROOM_INVALIDATE_CHANNEL).catch(() => { });
   redisSubscriber.on('message', (channel: string, message: string) => {
+    if (channel === ROOM_INVALIDATE_CHANNEL) { invalidateRoom(message); return; }
     localBus.emit(channel, message);
   });
 }
 
+// Slow mode: at most one message per `seconds` per user in a room (0 disables)
+const slowModeSchema = z.object({ seconds: z.number().int().min(0).max(MAX_SLOW_MODE_SECONDS) });
+app.post('/rooms/:id/slow-mode', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const roomId = c.req.param('id');
+  if (!(await canModerate(roomId, auth.userId))) return c.json({ error: 'forbidden' }, 403);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = slowModeSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const seconds = await limiter.setSlowMode(roomId, parsed.data.seconds);
+  publish(roomId, { type: 'slow_mode', seconds });
+  return c.json({ roomId, seconds });
+});
+
+app.get('/rooms/:id/slow-mode', async (c) => {
+  const roomId = c.req.param('id');
+  return c.json({ roomId, seconds: await limiter.getSlowMode(roomId) });
+});
+
+// --- Moderation (room author or admins) ---
+async function removeFromHotList(scope: string, videoId: string, id: string) {
+  if (!redisPublisher) return 0;
+  const key = `chat:${scope}:${videoId}`;
+  let removed = 0;
+  for (const s of await redisPublisher.lrange(key, 0, -1)) {
+    try { if (JSON.parse(s)?.id === id) removed += await redisPublisher.lrem(key, 0, s); } catch { }
+  }
+  return removed;
+}
+
+app.delete('/comments/:id', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const id = c.req.param('id');
+  const videoId = c.req.query('videoId');
+  if (!videoId) return c.json({ error: 'videoId required' }, 400);
+  if (!(await canModerate(videoId, auth.userId))) return c.json({ error: 'forbidden' }, 403);
+  const scope = (c.req.query('scope') || 'live').toLowerCase();
+  const { count } = await prisma.comment.deleteMany({ where: { id, videoId } });
+  const removed = await removeFromHotList(scope, videoId, id).catch(() => 0);
+  publish(videoId, { type: 'delete', id, videoId });
+  return c.json({ ok: true, deleted: count, removedFromCache: removed });
+});
+
+app.get('/rooms/:id/flagged', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const roomId = c.req.param('id');
+  if (!(await canModerate(roomId, auth.userId))) return c.json({ error: 'forbidden' }, 403);
+  // Flagged comments were delivered; pending ones wait for approval
+  const items = await prisma.comment.findMany({ where: { videoId: roomId, status: { in: ['flagged', 'pending'] } }, orderBy: { createdAt: 'desc' }, take: 200 });
+  return c.json({ items });
+});
+
+app.post('/comments/:id/approve', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const comment = await prisma.comment.findUnique({ where: { id: c.req.param('id') } });
+  if (!comment) return c.json({ error: 'not found' }, 404);
+  if (!(await canModerate(comment.videoId, auth.userId))) return c.json({ error: 'forbidden' }, 403);
+  // Conditional on the status read above, so concurrent approvals deliver a held comment once
+  const { count } = await prisma.comment.updateMany({ where: { id: comment.id, status: comment.status }, data: { status: 'visible', moderationReason: null } });
+  const updated = await prisma.comment.findUniqueOrThrow({ where: { id: comment.id } });
+  if (count > 0 && comment.status === 'pending') {
+    const { status, moderationReason, ...item } = updated;
+    publish(updated.videoId, { type: 'comment', item });
+    // Held comments never entered the hot list; without this they vanish on reload
+    await pushToHotList((c.req.query('scope') || 'live').toLowerCase(), updated.videoId, item);
+  }
+  return c.json(updated);
+});
+
+app.get('/rooms/:id/bans', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const roomId = c.req.param('id');
+  if (!(await canModerate(roomId, auth.userId))) return c.json({ error: 'forbidden' }, 403);
+  return c.json({ items: await moderation.listBans(roomId) });
+});
+
+const banSchema = z.object({ userId: z.string().min(1), mode: z.enum(['ban', 'shadow']).default('ban') });
+app.post('/rooms/:id/bans', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const roomId = c.req.param('id');
+  if (!(await canModerate(roomId, auth.userId))) return c.json({ error: 'forbidden' }, 403);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = banSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  await moderation.ban(roomId, parsed.data.userId, parsed.data.mode);
+  return c.json({ roomId, userId: parsed.data.userId, mode: parsed.data.mode });
+});
+
+app.delete('/rooms/:id/bans/:userId', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const roomId = c.req.param('id');
+  if (!(await canModerate(roomId, auth.userId))) return c.json({ error: 'forbidden' }, 403);
+  await moderation.unban(roomId, c.req.param('userId'));
+  return c.json({ ok: true });
+});
+
+// --- VOD replay ---
+// Service-to-service calls authenticate with INTERNAL_API_TOKEN; without it configured they are refused
+function isInternalCall(c: any) {
+  const expected = process.env.INTERNAL_API_TOKEN || '';
+  if (!expected) return false;
+  const given = Buffer.from(String(c.req.header('x-internal-token') || ''));
+  return given.length === expected.length && timingSafeEqual(given, Buffer.from(expected));
+}
+
+// Called by feed-service when a publish's comment settings change
+app.post('/rooms/:id/invalidate', async (c) => {
+  if (!isInternalCall(c)) return c.json({ error: 'unauthorized' }, 401);
+  const roomId = c.req.param('id');
+  invalidateRoom(roomId);
+  if (redisPublisher) await redisPublisher.publish(ROOM_INVALIDATE_CHANNEL, roomId).catch(() => 0);
+  return c.json({ ok: true });
+});
+
+// Recent comment counts per room for feed-service's ranking job
+const volumeSchema = z.object({ roomIds: z.array(z.string().min(1)).min(1).max(1000), hours: z.number().int().min(1).max(volume.MAX_HOURS) });
+app.post('/rooms/comment-volume', async (c) => {
+  if (!isInternalCall(c)) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = volumeSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const { roomIds, hours } = parsed.data;
+  let counts = await volume.counts(roomIds, hours);
+  if (!counts) {
+    // Without Redis only persisted comments can be counted
+    const since = new Date(Date.now() - hours * 3600 * 1000);
+    const groups = await prisma.comment.groupBy({ by: ['videoId'], where: { videoId: { in: roomIds }, status: 'visible', createdAt: { gte: since } }, _count: { _all: true } });
+    counts = Object.fromEntries(roomIds.map((id) => [id, groups.find((g) => g.videoId === id)?._count._all ?? 0]));
+  }
+  return c.json({ hours, counts });
+});
+
+// Imports replies from feed-service's legacy Reply table (npm run replies:backfill there).
+// Ids are kept, so re-running an import skips what is already stored. Replies whose
+// parent comment was never persisted become top-level comments of the video.
+const importSchema = z.object({
+  items: z.array(z.object({
+    id: z.string().min(1),
+    videoId: z.string().min(1),
+    userId: z.string().min(1),
+    content: z.string().min(1),
+    createdAt: z.string().datetime(),
+    replyToId: z.string().min(1).nullable(),
+  })).max(1000),
+});
+app.post('/comments/import', async (c) => {
+  if (!isInternalCall(c)) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = importSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const { items } = parsed.data;
+  const parentIds = [...new Set(items.map((i) => i.replyToId).filter((id): id is string => !!id))];
+  const parents = new Map((await prisma.comment.findMany({
+    where: { id: { in: parentIds } },
+    select: { id: true, videoId: true, userId: true, rootId: true, depth: true },
+  })).map((p) => [p.id, p]));
+  let orphaned = 0;
+  const rows = items.map((item) => {
+    const parent = item.replyToId ? parents.get(item.replyToId) : undefined;
+    if (item.replyToId && (!parent || parent.videoId !== item.videoId)) orphaned++;
+    const thread = parent && parent.videoId === item.videoId
+      ? { replyToId: parent.id, replyToUserId: parent.userId, rootId: parent.rootId ?? parent.id, depth: parent.depth + 1 }
+      : { replyToId: null, replyToUserId: null, rootId: null, depth: 0 };
+    return { id: item.id, videoId: item.videoId, userId: item.userId, content: item.content, createdAt: new Date(item.createdAt), ...thread };
+  });
+  const { count } = await prisma.comment.createMany({ data: rows, skipDuplicates: true });
+  return c.json({ imported: count, skipped: rows.length - count, orphaned });
+});
+
+// When a stream ends (stream.ended event, or this internal endpoint): moves the
+// live hot list into Postgres and records the VOD replay instead of throwing the chat away
+async function archiveRoom(videoId: string, times: { startedAt?: Date; endedAt?: Date } = {}) {
+  const room = await getRoomInfo(videoId, true);
+  const endedAt = times.endedAt ?? new Date();
+  const hotKey = `chat:live:${videoId}`;
+  const raw = redisPublisher ? await redisPublisher.lrange(hotKey, 0, -1) : [];
+  const cached = raw.map((s) => { try { return JSON.parse(s); } catch { return null; } }).filter((x) => x && x.id && x.userId && x.content);
+  const firstCommentAt = cached.length ? Math.min(...cached.map((x) => new Date(x.createdAt).getTime())) : endedAt.getTime();
+  const startedAt = times.startedAt ?? room.startedAt ?? new Date(firstCommentAt);
+  // Ids are primary keys, so comments the worker already stored are skipped
+  await prisma.comment.createMany({
+    skipDuplicates: true,
+    data: cached.map((x) => ({
+      id: String(x.id),
+      videoId,
+      userId: String(x.userId),
+      content: String(x.content),
+      createdAt: new Date(x.createdAt),
+      replyToId: x.replyToId ?? null,
+      replyToUserId: x.replyToUserId ?? null,
+      rootId: x.rootId ?? null,
+      depth: Number.isInteger(x.depth) ? x.depth : 0,
+      offsetMs: Number.isInteger(x.offsetMs) ? x.offsetMs : Math.max(new Date(x.createdAt).getTime() - startedAt.getTime(), 0),
+    })),
+  });
+  // Comments sent before the start time was known get their offset now
+  await prisma.$executeRaw`UPDATE "Comment" SET "offsetMs" = GREATEST(0, FLOOR(EXTRACT(EPOCH FROM ("createdAt" - ${startedAt})) * 1000))::int WHERE "videoId" = ${videoId} AND "offsetMs" IS NULL`;
+  const commentCount = await prisma.comment.count({ where: { videoId } });
+  const replay = await prisma.chatReplay.upsert({
+    where: { videoId },
+    create: { videoId, streamStartedAt: startedAt, endedAt, commentCount },
+    update: { streamStartedAt: startedAt, endedAt, commentCount },
+  });
+  if (redisPublisher) await redisPublisher.del(hotKey).catch(() => 0);
+  // Other instances re-read the room, which now has comments disabled
+  if (redisPublisher) await redisPublisher.publish(ROOM_INVALIDATE_CHANNEL, videoId).catch(() => 0);
+  publish(videoId, { type: 'ended', videoId });
+  return replay;
+}
+
+const archiveSchema = z.object({ startedAt: z.string().datetime().optional(), endedAt: z.string().datetime().optional() });
+app.post('/rooms/:id/archive', async (c) => {
+  if (!isInternalCall(c)) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = archiveSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const { startedAt, endedAt } = parsed.data;
+  return c.json(await archiveRoom(c.req.param('id'), { startedAt: startedAt ? new Date(startedAt) : undefined, endedAt: endedAt ? new Date(endedAt) : undefined }));
+});
+
+// Chat for the playback window [fromMs, toMs), ordered by stream offset
+app.get('/rooms/:id/replay', async (c) => {
+  const videoId = c.req.param('id');
+  const fromMs = Math.max(Math.floor(Number(c.req.query('fromMs') ?? 0)), 0);
+  const toMs = Math.floor(Number(c.req.query('toMs')));
+  if (!Number.isFinite(fromMs) || !Number.isFinite(toMs) || toMs <= fromMs) return c.json({ error: 'fromMs and toMs required, toMs > fromMs' }, 400);
+  const limit = parseLimit(c.req.query('limit'), 200, 1000);
+  const cursor = decodeCursor(c.req.query('cursor'));
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  const rows = await prisma.comment.findMany({
+    where: {
+      videoId,
+      offsetMs: { gte: fromMs, lt: toMs },
+      ...(cursor ? { OR: [{ offsetMs: { gt: cursor.t } }, { offsetMs: cursor.t, id: { gt: cursor.id } }] } : {}),
+    },
+    orderBy: [{ offsetMs: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+    select: PUBLIC_COMMENT_FIELDS,
+  });
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  const nextCursor = rows.length > limit && last ? encodeKey({ t: last.offsetMs ?? 0, id: last.id }) : null;
+  const replay = await prisma.chatReplay.findUnique({ where: { videoId } });
+  return c.json({ videoId, fromMs, toMs, replay, items, nextCursor });
+});
+
+// Current viewers across all nodes, plus the peak and viewer-time sampled so far
+app.get('/rooms/:id/presence', async (c) => {
+  return c.json(await presence.getStats(c.req.param('id')));
+});
+
+// Refresh this node's viewers and broadcast the room's count (one node per room per tick)
+setInterval(() => {
+  for (const [roomId, sockets] of roomSubscribers) {
+    if (isPrivateRoom(roomId)) continue;
+    (async () => {
+      await presence.heartbeat(roomId, [...sockets.values()]);
+      const viewers = await presence.sample(roomId);
+      if (viewers !== null) publish(roomId, { type: 'presence', roomId, viewers });
+    })().catch(() => { });
+  }
+}, PRESENCE_INTERVAL_MS).unref();
+
+// --- Notifications (owner only) ---
+app.get('/notifications', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const limit = parseLimit(c.req.query('limit'), 20, 100);
+  const cursor = decodeCursor(c.req.query('cursor'));
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  const where = { AND: [{ userId: auth.userId }, c.req.query('unread') === '1' ? { readAt: null } : {}, cursor ? keysetWhere(cursor, 'desc') : {}] };
+  const rows = await prisma.notification.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], take: limit + 1 });
+  const items = rows.slice(0, limit).map(({ dedupeKey, ...item }) => item);
+  const nextCursor = rows.length > limit ? encodeCursor(items[items.length - 1]) : null;
+  return c.json({ items, nextCursor });
+});
+
+app.get('/notifications/unread-count', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  return c.json({ count: await notifier.unreadCount(auth.userId) });
+});
+
+// { ids: [...] } marks those notifications read, { all: true } marks everything read
+const markReadSchema = z.union([z.object({ ids: z.array(z.string()).min(1).max(500) }), z.object({ all: z.literal(true) })]);
+app.post('/notifications/read', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = markReadSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const updated = await notifier.markRead(auth.userId, 'ids' in parsed.data ? parsed.data.ids : undefined);
+  return c.json({ updated, unread: await notifier.unreadCount(auth.userId) });
+});
+
+// Called by other services (e.g. live-service when a stream goes live)
+// Any JSON value Prisma can store in a Json column
+const jsonValue: z.ZodType<Prisma.InputJsonValue> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.array(jsonValue.nullable()), z.record(jsonValue.nullable())]));
+const internalNotifySchema = z.object({
+  userIds: z.array(z.string().min(1)).min(1).max(1000),
+  type: z.enum(NOTIFICATION_TYPES),
+  actorId: z.string().optional(),
+  roomId: z.string().optional(),
+  data: z.record(jsonValue.nullable()).optional(),
+});
+app.post('/notifications', async (c) => {
+  if (!isInternalCall(c)) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = internalNotifySchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const { userIds, type, actorId, roomId, data } = parsed.data;
+  const created = await notifier.notify(userIds.map((userId) => ({ userId, type, actorId, roomId, data })));
+  return c.json({ created: created.length });
+});
+
+// --- Domain events from other services (@yoom/events over Kafka) ---
+const FEED_BASE = process.env.FEED_BASE || 'http://localhost:4004';
+
+// Tells the author's followers (paged from feed-service) that the stream is live.
+// Each page is stored as it arrives and keyed by event and follower, so a retry
+// after a failure part-way only notifies the followers that were missed.
+async function notifyFollowers(eventId: string, stream: { streamId: string; authorId: string; title: string }) {
+  let cursor: string | null = null;
+  do {
+    const qs: string = new URLSearchParams({ limit: '1000', ...(cursor ? { cursor } : {}) }).toString();
+    const res = await fetch(`${FEED_BASE}/users/${encodeURIComponent(stream.authorId)}/followers?${qs}`);
+    if (!res.ok) throw new Error(`followers returned ${res.status}`);
+    const page = (await res.json()) as { items: Array<{ userId: string }>; nextCursor: string | null };
+    if (page.items.length > 0) {
+      await notifier.notify(page.items.map((f) => ({ userId: f.userId, type: 'stream_live' as const, actorId: stream.authorId, roomId: stream.streamId, data: { title: stream.title }, dedupeKey: `${eventId}:${f.userId}` })));
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+startEventConsumer(prisma, 'comments-events', {
+  'stream.started': async (event) => { await notifyFollowers(event.id, event.payload); },
+  'stream.ended': async (event) => {
+    const { streamId, startedAt, endedAt } = event.payload;
+    await archiveRoom(streamId, { startedAt: startedAt ? new Date(startedAt) : undefined, endedAt: new Date(endedAt) });
+  },
+  // Removed publishes close their comment room right away on every instance
+  'publish.deleted': async (event) => {
+    invalidateRoom(event.payload.publishId);
+    if (redisPublisher) await redisPublisher.publish(ROOM_INVALIDATE_CHANNEL, event.payload.publishId).catch(() => 0);
+  },
+  'user.deleted': async (event, db) => {
+    const { userId } = event.payload;
+    await db.comment.deleteMany({ where: { userId } });
+    await db.notification.deleteMany({ where: { OR: [{ userId }, { actorId: userId }] } });
+  },
+});
+
 // Debug endpoint to verify Redis connectivity
 app.get('/debug/redis', async (c) => {
   try {
@@ -172,57 +731,177 @@ function ensureSubscribeRoom(roomId: string) {
   }
 }
 
+// Comments a reconnecting client missed, oldest first, from the room's Redis list.
+// `gap` means lastSeenId is no longer in the list, so older ones must be paged
+// from GET /comments.
+async function missedSince(scope: string, roomId: string, lastSeenId: string): Promise<{ items: unknown[]; gap: boolean }> {
+  if (!redisPublisher) return { items: [], gap: true };
+  const raw = await redisPublisher.lrange(`chat:${scope}:${roomId}`, 0, HOT_LIST_MAX - 1);
+  const items: CommentItem[] = [];
+  for (const s of raw) {
+    let item: CommentItem | null = null;
+    try { item = JSON.parse(s); } catch { }
+    if (!item?.id) continue;
+    if (item.id === lastSeenId) return { items: items.reverse(), gap: false };
+    items.push(item);
+  }
+  return { items: items.reverse(), gap: true };
+}
+
+// WS close codes (4000-4999 are reserved for applications)
+const WS_CLOSE_UNAUTHORIZED = 4001;
+const WS_CLOSE_TOKEN_EXPIRED = 4002;
+const WS_CLOSE_FORBIDDEN = 4003;
+// Sockets that do not answer a protocol ping within one interval are dropped
+const WS_PING_INTERVAL_MS = Number(process.env.WS_PING_INTERVAL_MS || 30 * 1000);
+// Browsers cannot set headers on a WebSocket, so the token may come as
+// ?token=..., as the subprotocol pair ['bearer', token], or in a first
+// { type: 'auth', token } frame. Without a token the socket is read-only.
+function wsToken(url: URL, req: any): string {
+  const fromQuery = url.searchParams.get('token') || url.searchParams.get('access_token');
+  if (fromQuery) return fromQuery;
+  const protocols = String(req.headers?.['sec-websocket-protocol'] || '').split(',').map((p) => p.trim());
+  const i = protocols.indexOf('bearer');
+  return i >= 0 && protocols[i + 1] ? protocols[i + 1] : '';
+}
+
+const alive = new WeakMap<WS, boolean>();
+setInterval(() => {
+  for (const ws of wss.clients as Set<WS>) {
+    if (alive.get(ws) === false) { try { ws.terminate(); } catch { } continue; }
+    alive.set(ws, false);
+    try { ws.ping(); } catch { }
+  }
+}, WS_PING_INTERVAL_MS).unref();
+
 wss.on('connection', (ws: WS, req: any) => {
   try {
     const url = new URL(req.url || '/', 'http://localhost');
     const roomId = url.searchParams.get('roomId') || '';
     if (!roomId) { try { ws.close(); } catch { } return; }
     const channel = `room:${roomId}`;
+    const send = (frame: ServerFrame) => { try { ws.send(JSON.stringify(frame)); } catch { } };
+    const requested = url.searchParams.get('v');
+    if (requested && Number(requested) !== PROTOCOL_VERSION) {
+      send(errorFrame('unsupported_version', { supported: [PROTOCOL_VERSION] }));
+      try { ws.close(1002, 'unsupported protocol version'); } catch { }
+      return;
+    }
+    alive.set(ws, true);
+    ws.on('pong', () => alive.set(ws, true));
 
-    // track subscribers
-    if (!roomSubscribers.has(roomId)) roomSubscribers.set(roomId, new Set());
-    roomSubscribers.get(roomId)!.add(ws);
+    // Identity of this socket; set by the handshake token or an 'auth' frame
+    let user: AuthUser | null = null;
+    let expiryTimer: NodeJS.Timeout | undefined;
+    const authenticate = async (token: string) => {
+      const verified = await verifyToken(token);
+      if (!verified || (user && user.userId !== verified.userId)) {
+        send(errorFrame('unauthorized'));
+        try { ws.close(WS_CLOSE_UNAUTHORIZED, 'invalid token'); } catch { }
+        return false;
+      }
+      user = verified;
+      // Close when the token expires; clients re-send { type: 'auth' } with a fresh token to stay connected
+      clearTimeout(expiryTimer);
+      const ttl = Math.min(Math.max(verified.exp * 1000 - Date.now(), 0), 2 ** 31 - 1);
+      expiryTimer = setTimeout(() => { try { ws.close(WS_CLOSE_TOKEN_EXPIRED, 'token expired'); } catch { } }, ttl);
+      return true;
+    };
+    const ip = forwardedIp(req.headers?.['x-forwarded-for']) || req.socket?.remoteAddress || '';
+    const handshakeToken = wsToken(url, req);
+    // A user's notification channel needs that user's token at the handshake
+    const privateOwner = isPrivateRoom(roomId) ? roomId.slice('user:'.length) : null;
+    if (privateOwner && !handshakeToken) {
+      send(errorFrame('unauthorized'));
+      try { ws.close(WS_CLOSE_UNAUTHORIZED, 'token required'); } catch { }
+      return;
+    }
+    let ready: Promise<boolean> = handshakeToken ? authenticate(handshakeToken) : Promise.resolve(true);
+    if (privateOwner) {
+      ready = ready.then((ok) => {
+        if (ok && user?.userId === privateOwner) return true;
+        send(errorFrame('forbidden'));
+        try { ws.close(WS_CLOSE_FORBIDDEN, 'not your channel'); } catch { }
+        return false;
+      });
+    }
 
     ensureSubscribeRoom(roomId);
 
-    const onLocal = (msg: string) => { try { ws.send(msg); } catch { } };
+    // track subscribers; every socket, signed in or not, counts as a viewer
+    const presenceId = `${nodeId}:${++connSeq}`;
+    if (!roomSubscribers.has(roomId)) roomSubscribers.set(roomId, new Map());
+    roomSubscribers.get(roomId)!.set(ws, presenceId);
+    if (!privateOwner) {
+      presence.heartbeat(roomId, [presenceId])
+        .then(() => presence.count(roomId))
+        .then((viewers) => { try { ws.send(JSON.stringify({ type: 'presence', roomId, viewers })); } catch { } })
+        .catch(() => { });
+    }
+
+    const onLocal = (msg: string) => {
+      // Nothing reaches a private channel before its owner is verified
+      if (privateOwner && user?.userId !== privateOwner) return;
+      // Shadow-banned comments carry visibleTo and only reach their sender
+      if (msg.includes('"visibleTo":')) {
+        try { if (JSON.parse(msg).visibleTo !== user?.userId) return; } catch { return; }
+      }
+      try { ws.send(msg); } catch { }
+    };
     localBus.on(channel, onLocal);
 
-    ws.on('message', (raw: any) => {
+    const resume = async (lastSeenId: string, scope = 'live') => {
+      send({ type: 'resume', ...(await missedSince(scope.toLowerCase(), roomId, lastSeenId)) });
+    };
+
+    const postComment = async (frame: Extract<ClientFrame, { type: 'comment' }>) => {
+      const clientMsgId = frame.clientMsgId ?? null;
+      if (!user) { send(errorFrame('unauthorized', { clientMsgId })); return; }
+      if (privateOwner) { send(errorFrame('forbidden', { clientMsgId })); return; }
+      if (frame.videoId && frame.videoId !== roomId) { send(errorFrame('wrong_room', { clientMsgId })); return; }
+      const userId = user.userId;
+      const access = await checkCommentAccess(roomId, userId);
+      if (!access.ok) { send(errorFrame(access.error, { clientMsgId })); return; }
+      const scope = (frame.scope || 'live').toLowerCase();
+      const thread = frame.replyToId ? await threads.resolveParent(roomId, frame.replyToId, scope) : null;
+      if (thread && !thread.ok) { send(errorFrame('invalid_parent', { clientMsgId })); return; }
+      const limited = await limiter.checkComment({ userId, ip, roomId });
+      if (!limited.allowed) { send(rateLimitedFrame(limited, clientMsgId)); return; }
+      const verdict = await moderation.moderate({ roomId, userId, content: frame.content });
+      if (verdict.action === 'block') { send(errorFrame('comment_rejected', { clientMsgId, reason: verdict.reason })); return; }
+      const { offsetMs, content } = frame;
+      const created = await deliverComment({ videoId: roomId, userId, content, offsetMs }, verdict, scope, { thread });
+      send({ type: 'ack', clientMsgId, id: created.id, createdAt: created.createdAt, ...('status' in created ? { status: created.status } : {}) });
+    };
+
+    ws.on('message', async (raw: any) => {
+      alive.set(ws, true);
+      const parsed = parseClientFrame(typeof raw === 'string' ? raw : raw.toString());
+      if (!parsed.ok) { send(parsed.frame); return; }
+      const frame = parsed.frame;
       try {
-        const text = typeof raw === 'string' ? raw : (raw as any).toString();
-        const data = JSON.parse(text);
-        if (data && data.type === 'comment' && data.videoId && data.userId && data.content) {
-          const content: string = String(data.content).slice(0, 2000);
-          const now = new Date().toISOString();
-          const temp = { id: randomUUID(), videoId: String(data.videoId), userId: String(data.userId), content, createdAt: now, replyToId: data.replyToId, replyToUserId: data.replyToUserId } as any;
-          const scope = (data.scope || 'live').toLowerCase();
-          const save = async () => {
-            if (PERSIST_MODE === 'all' || (PERSIST_MODE === 'sample' && Math.random() < SAMPLE_RATE)) {
-              try { return await prisma.comment.create({ data: { videoId: String(data.videoId), userId: String(data.userId), content } }); } catch (e) { /* eslint-disable-next-line no-console */ console.error('[db] persist failed:', e instanceof Error ? e.message : e); }
-            }
-            return temp as any;
-          };
-          save().then((created) => {
-            publish(String(data.videoId), { type: 'comment', item: created });
-            if (data.replyToUserId) publish(`user:${String(data.replyToUserId)}`, { type: 'reply', item: created });
-            if (redisPublisher) {
-              setImmediate(async () => {
-                try {
-                  const key = `chat:${scope}:${created.videoId}`;
-                  await redisPublisher.lpush(key, JSON.stringify(created));
-                  await redisPublisher.ltrim(key, 0, 499);
-                  await redisPublisher.expire(key, 24 * 60 * 60);
-                } catch (e) { console.error('[redis] cache write failed:', e instanceof Error ? e.message : e); }
-              });
-            }
-          });
+        if (!(await ready)) return;
+        switch (frame.type) {
+          case 'auth':
+            ready = authenticate(frame.token);
+            if (await ready) send({ type: 'authenticated', userId: user!.userId });
+            return;
+          case 'comment': return await postComment(frame);
+          case 'resume': return await resume(frame.lastSeenId, frame.scope);
+          case 'ping': return send({ type: 'pong', ts: frame.ts });
+          case 'pong': return;
         }
-      } catch { }
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.error('[ws] frame failed:', e instanceof Error ? e.message : e);
+        send(errorFrame('internal', { clientMsgId: frame.type === 'comment' ? frame.clientMsgId ?? null : undefined }));
+      }
     });
 
     ws.on('close', () => {
+      clearTimeout(expiryTimer);
       localBus.off(channel, onLocal as any);
+      presence.leave(roomId, presenceId).catch(() => { });
       const set = roomSubscribers.get(roomId);
       if (set) {
         set.delete(ws);
@@ -232,6 +911,13 @@ wss.on('connection', (ws: WS, req: any) => {
         }
       }
     });
+
+    ready.then((ok) => {
+      if (!ok) return;
+      send({ type: 'hello', v: PROTOCOL_VERSION, roomId, userId: user?.userId ?? null, pingIntervalMs: WS_PING_INTERVAL_MS });
+      const lastSeenId = url.searchParams.get('lastSeenId');
+      if (lastSeenId) resume(lastSeenId, url.searchParams.get('scope') || 'live').catch(() => send(errorFrame('internal')));
+    });
   } catch { try { (ws as any).close(); } catch { } }
 });
 
@@ -245,7 +931,7 @@ const startServer = async () => {
 
   serve({ fetch: app.fetch, port }, () => {
     // eslint-disable-next-line no-console
-    console.log(`comments-service listening on http://localhost:${port}, ws://localhost:${wsPort}/?roomId=...`);
+    console.log(`comments-service listening on http://localhost:${port}, ws://localhost:${wsPort}/?roomId=...&token=...`);
   });
 
   const gracefulShutdown = async () => {
@@ -8,3 +8,6 @@ export const kafka = new Kafka({
 });
 
 export const TOPIC_COMMENTS = 'comments';
+
+// Comments that could not be parsed or persisted after retries
+export const TOPIC_COMMENTS_DLQ = 'comments.dlq';
@@ -0,0 +1,124 @@
+import Redis from 'ioredis';
+import fs from 'fs';
+
+// Moderation runs before a comment is broadcast. Each stage may return a
+// verdict; the most severe one wins (block > shadow > hold > flag > allow).
+//  - block:  rejected, nobody sees it
+//  - shadow: only the sender sees it (shadow-banned users)
+//  - hold:   persisted with status 'pending'; only the sender sees it until approved
+//  - flag:   delivered, but persisted with status 'flagged' for review
+
+export type ModerationAction = 'allow' | 'flag' | 'hold' | 'shadow' | 'block';
+export type Verdict = { action: ModerationAction; reason?: string };
+export type ModerationInput = { roomId: string; userId: string; content: string };
+export type ModerationStage = (input: ModerationInput) => Promise<Verdict | null> | Verdict | null;
+export type BanMode = 'ban' | 'shadow';
+
+type Rule = { test: (content: string) => boolean; action: Exclude<ModerationAction, 'allow'>; reason: string };
+
+const SEVERITY: Record<ModerationAction, number> = { allow: 0, flag: 1, hold: 2, shadow: 3, block: 4 };
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ASCII words match on word boundaries ("ass" does not hit "class"); other scripts match as substrings
+function wordRule(word: string, action: Rule['action']): Rule {
+  const re = /^[\w\s-]+$/.test(word) ? new RegExp(`\\b${escapeRegex(word)}\\b`, 'i') : new RegExp(escapeRegex(word), 'i');
+  return { test: (content) => re.test(content), action, reason: `word:${word}` };
+}
+
+function splitList(value: string | undefined) {
+  return (value || '').split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+// Rules come from MODERATION_BLOCKLIST / MODERATION_FLAGLIST (comma-separated words)
+// and MODERATION_RULES_FILE, a JSON array of { word?, pattern?, flags?, action }
+export function loadRules(): Rule[] {
+  const rules: Rule[] = [
+    ...splitList(process.env.MODERATION_BLOCKLIST).map((w) => wordRule(w, 'block')),
+    ...splitList(process.env.MODERATION_FLAGLIST).map((w) => wordRule(w, 'flag')),
+  ];
+  const file = process.env.MODERATION_RULES_FILE;
+  if (file) {
+    try {
+      const entries = JSON.parse(fs.readFileSync(file, 'utf8')) as Array<{ word?: string; pattern?: string; flags?: string; action?: string }>;
+      for (const e of entries) {
+        const action = (e.action === 'flag' || e.action === 'hold' || e.action === 'shadow' ? e.action : 'block') as Rule['action'];
+        if (e.word) rules.push(wordRule(e.word, action));
+        else if (e.pattern) {
+          const re = new RegExp(e.pattern, e.flags ?? 'i');
+          rules.push({ test: (content) => re.test(content), action, reason: `pattern:${e.pattern}` });
+        }
+      }
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error('[moderation] failed to load rules file:', e instanceof Error ? e.message : e);
+    }
+  }
+  return rules;
+}
+
+export function ruleStage(rules: Rule[]): ModerationStage {
+  return ({ content }) => {
+    let worst: Verdict | null = null;
+    for (const rule of rules) {
+      if (!rule.test(content)) continue;
+      if (!worst || SEVERITY[rule.action] > SEVERITY[worst.action]) worst = { action: rule.action, reason: rule.reason };
+      if (worst.action === 'block') break;
+    }
+    return worst;
+  };
+}
+
+export function createModeration(redis: Redis | null, extraStages: ModerationStage[] = []) {
+  // Per-room bans: bans:{roomId} hash of userId -> 'ban' | 'shadow' (local map without Redis)
+  const localBans = new Map<string, Map<string, BanMode>>();
+
+  async function getBan(roomId: string, userId: string): Promise<BanMode | null> {
+    if (redis) {
+      try { return ((await redis.hget(`bans:${roomId}`, userId)) as BanMode | null) || null; } catch { }
+    }
+    return localBans.get(roomId)?.get(userId) || null;
+  }
+
+  async function ban(roomId: string, userId: string, mode: BanMode) {
+    if (!localBans.has(roomId)) localBans.set(roomId, new Map());
+    localBans.get(roomId)!.set(userId, mode);
+    if (redis) await redis.hset(`bans:${roomId}`, userId, mode);
+  }
+
+  async function unban(roomId: string, userId: string) {
+    localBans.get(roomId)?.delete(userId);
+    if (redis) await redis.hdel(`bans:${roomId}`, userId);
+  }
+
+  async function listBans(roomId: string): Promise<Array<{ userId: string; mode: BanMode }>> {
+    let entries: Record<string, string> = Object.fromEntries(localBans.get(roomId) || []);
+    if (redis) {
+      try { entries = await redis.hgetall(`bans:${roomId}`); } catch { }
+    }
+    return Object.entries(entries).map(([userId, mode]) => ({ userId, mode: mode as BanMode }));
+  }
+
+  const banStage: ModerationStage = async ({ roomId, userId }) => {
+    const mode = await getBan(roomId, userId);
+    if (mode === 'ban') return { action: 'block', reason: 'banned' };
+    if (mode === 'shadow') return { action: 'shadow', reason: 'shadow-banned' };
+    return null;
+  };
+
+  const stages: ModerationStage[] = [banStage, ruleStage(loadRules()), ...extraStages];
+
+  async function moderate(input: ModerationInput): Promise<Verdict> {
+    let verdict: Verdict = { action: 'allow' };
+    for (const stage of stages) {
+      const v = await stage(input);
+      if (v && SEVERITY[v.action] > SEVERITY[verdict.action]) verdict = v;
+      if (verdict.action === 'block') break;
+    }
+    return verdict;
+  }
+
+  return { moderate, ban, unban, listBans };
+}
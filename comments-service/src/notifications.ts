@@ -0,0 +1,59 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+// Per-user notification inbox. Every notification is stored first and then
+// pushed to the recipient's private `user:{id}` channel, so users who are
+// offline find it in GET /notifications later.
+
+export const NOTIFICATION_TYPES = ['reply', 'publish_comment', 'stream_live'] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export type NotificationInput = {
+  userId: string;
+  type: NotificationType;
+  actorId?: string | null;
+  roomId?: string | null;
+  commentId?: string | null;
+  data?: Prisma.InputJsonValue;
+  dedupeKey?: string;
+};
+
+export const userChannel = (userId: string) => `user:${userId}`;
+
+export function createNotifier(prisma: PrismaClient, publish: (roomId: string, payload: unknown) => void) {
+  async function notify(inputs: NotificationInput[]) {
+    // Nobody is notified about their own actions
+    const rows = inputs.filter((n) => n.userId && n.userId !== n.actorId);
+    if (rows.length === 0) return [];
+    // Rows whose dedupeKey already exists are skipped and not pushed again
+    const created = await prisma.notification.createManyAndReturn({
+      skipDuplicates: true,
+      data: rows.map((n) => ({ userId: n.userId, type: n.type, actorId: n.actorId ?? null, roomId: n.roomId ?? null, commentId: n.commentId ?? null, data: n.data, dedupeKey: n.dedupeKey ?? null })),
+    });
+    for (const { dedupeKey, ...item } of created) publish(userChannel(item.userId), { type: 'notification', item });
+    return created;
+  }
+
+  // Fire-and-forget variant for request paths that must not fail on the inbox
+  function notifyLater(inputs: NotificationInput[]) {
+    notify(inputs).catch((e) => {
+      // eslint-disable-next-line no-console
+      console.error('[notifications] store failed:', e instanceof Error ? e.message : e);
+    });
+  }
+
+  async function unreadCount(userId: string) {
+    return prisma.notification.count({ where: { userId, readAt: null } });
+  }
+
+  // Marks the given ids (or all when ids is omitted) read; only the owner's rows are touched
+  async function markRead(userId: string, ids?: string[]) {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+      data: { readAt: new Date() },
+    });
+    publish(userChannel(userId), { type: 'notifications_read', ids: ids ?? null, unread: await unreadCount(userId) });
+    return count;
+  }
+
+  return { notify, notifyLater, unreadCount, markRead };
+}
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { KafkaMessage, Message } from 'kafkajs';
+import { BatchContext, CommentRow, DLQ_HEADERS, handleBatch } from './persist';
+import { TOPIC_COMMENTS, TOPIC_COMMENTS_DLQ } from './kafka';
+
+// In-process fake of the pieces of Kafka the worker uses: topics the producer
+// appends to, and a consumer that hands out one batch and tracks the committed offset.
+function fakeKafka() {
+  const topics = new Map<string, Message[]>();
+  const producer = {
+    down: false,
+    async send(record: { topic: string; messages: Message[] }) {
+      if (producer.down) throw new Error('broker unavailable');
+      topics.set(record.topic, [...(topics.get(record.topic) || []), ...record.messages]);
+    },
+  };
+  const consumer = {
+    committed: null as string | null,
+    heartbeats: 0,
+    batch(values: Array<string | null>, firstOffset = 100): BatchContext {
+      const messages = values.map((value, i) => ({
+        key: Buffer.from(`k${i}`),
+        value: value === null ? null : Buffer.from(value),
+        offset: String(firstOffset + i),
+        timestamp: '0',
+        attributes: 0,
+        headers: { origin: 'test' },
+      })) as KafkaMessage[];
+      return {
+        batch: { topic: TOPIC_COMMENTS, partition: 3, messages },
+        resolveOffset: (offset) => { consumer.committed = offset; },
+        heartbeat: async () => { consumer.heartbeats++; },
+        isRunning: () => true,
+        isStale: () => false,
+      };
+    },
+  };
+  return { topics, producer, consumer };
+}
+
+const comment = (id: string) => JSON.stringify({ id, videoId: 'v1', userId: 'u1', content: `hello ${id}`, createdAt: '2026-01-01T00:00:00.000Z' });
+const header = (m: Message, name: string) => String(m.headers?.[name]);
+
+test('persists a batch and commits its last offset', async () => {
+  const { topics, producer, consumer } = fakeKafka();
+  const stored: CommentRow[] = [];
+  const result = await handleBatch(consumer.batch([comment('a'), comment('b')]), {
+    producer,
+    persist: async (rows) => { stored.push(...rows); return rows.length; },
+  });
+  assert.deepEqual(result, { persisted: 2, deadLettered: 0 });
+  assert.deepEqual(stored.map((r) => r.id), ['a', 'b']);
+  assert.equal(consumer.committed, '101');
+  assert.equal(topics.get(TOPIC_COMMENTS_DLQ), undefined);
+});
+
+test('retries a failing insert with exponential backoff', async () => {
+  const { producer, consumer } = fakeKafka();
+  const delays: number[] = [];
+  let calls = 0;
+  const result = await handleBatch(consumer.batch([comment('a')]), {
+    producer,
+    baseDelayMs: 100,
+    sleep: async (ms) => { delays.push(ms); },
+    persist: async (rows) => { if (++calls < 3) throw new Error('db down'); return rows.length; },
+  });
+  assert.equal(calls, 3);
+  assert.deepEqual(delays, [100, 200]);
+  assert.deepEqual(result, { persisted: 1, deadLettered: 0 });
+  assert.equal(consumer.committed, '100');
+});
+
+test('parks messages on the DLQ with error headers after the last attempt, then commits', async () => {
+  const { topics, producer, consumer } = fakeKafka();
+  const delays: number[] = [];
+  const result = await handleBatch(consumer.batch([comment('a'), comment('b')]), {
+    producer,
+    maxAttempts: 3,
+    baseDelayMs: 10,
+    sleep: async (ms) => { delays.push(ms); },
+    persist: async () => { throw new Error('db down'); },
+  });
+  assert.deepEqual(delays, [10, 20]);
+  assert.deepEqual(result, { persisted: 0, deadLettered: 2 });
+  const parked = topics.get(TOPIC_COMMENTS_DLQ) || [];
+  assert.equal(parked.length, 2);
+  assert.equal(String(parked[0].value), comment('a'));
+  assert.equal(String(parked[0].key), 'k0');
+  assert.equal(header(parked[0], DLQ_HEADERS.reason), 'persist_failed');
+  assert.equal(header(parked[0], DLQ_HEADERS.error), 'db down');
+  assert.equal(header(parked[0], DLQ_HEADERS.attempts), '3');
+  assert.equal(header(parked[0], DLQ_HEADERS.topic), TOPIC_COMMENTS);
+  assert.equal(header(parked[0], DLQ_HEADERS.partition), '3');
+  assert.equal(header(parked[1], DLQ_HEADERS.offset), '101');
+  assert.equal(header(parked[0], 'origin'), 'test');
+  assert.equal(consumer.committed, '101');
+});
+
+test('parks unparseable messages without retrying and stores the rest', async () => {
+  const { topics, producer, consumer } = fakeKafka();
+  let calls = 0;
+  const result = await handleBatch(consumer.batch(['not json', null, comment('c')]), {
+    producer,
+    persist: async (rows) => { calls++; return rows.length; },
+  });
+  assert.equal(calls, 1);
+  assert.deepEqual(result, { persisted: 1, deadLettered: 2 });
+  const parked = topics.get(TOPIC_COMMENTS_DLQ) || [];
+  assert.deepEqual(parked.map((m) => header(m, DLQ_HEADERS.reason)), ['invalid_message', 'invalid_message']);
+  assert.deepEqual(parked.map((m) => header(m, DLQ_HEADERS.error)), ['invalid json', 'empty message']);
+  assert.deepEqual(parked.map((m) => header(m, DLQ_HEADERS.attempts)), ['0', '0']);
+  assert.equal(consumer.committed, '102');
+});
+
+test('does not commit when the DLQ cannot be written, so the batch is redelivered', async () => {
+  const { producer, consumer } = fakeKafka();
+  producer.down = true;
+  await assert.rejects(handleBatch(consumer.batch([comment('a')]), {
+    producer,
+    maxAttempts: 1,
+    sleep: async () => undefined,
+    persist: async () => { throw new Error('db down'); },
+  }), /broker unavailable/);
+  assert.equal(consumer.committed, null);
+});
@@ -0,0 +1,152 @@
+import type { KafkaMessage, Message, IHeaders } from 'kafkajs';
+import { TOPIC_COMMENTS_DLQ } from './kafka';
+
+// Batch handling for the comments worker, kept free of Prisma/Kafka clients
+// so it can run against any persist function and producer (e.g. an in-process fake).
+
+export type CommentRow = {
+  id: string;
+  videoId: string;
+  userId: string;
+  content: string;
+  createdAt: Date;
+  replyToId: string | null;
+  replyToUserId: string | null;
+  rootId: string | null;
+  depth: number;
+  offsetMs: number | null;
+  status: string;
+  moderationReason: string | null;
+};
+
+export type PersistFn = (rows: CommentRow[]) => Promise<number>;
+export type DlqProducer = { send(record: { topic: string; messages: Message[] }): Promise<unknown> };
+export type BatchContext = {
+  batch: { topic: string; partition: number; messages: KafkaMessage[] };
+  resolveOffset(offset: string): void;
+  heartbeat(): Promise<void>;
+  isRunning(): boolean;
+  isStale(): boolean;
+};
+export type BatchOptions = {
+  persist: PersistFn;
+  producer: DlqProducer;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+// DLQ records keep the original key/value untouched so they can be replayed as-is;
+// failure details travel in headers.
+export const DLQ_HEADERS = {
+  reason: 'x-dlq-reason',
+  error: 'x-dlq-error',
+  attempts: 'x-dlq-attempts',
+  topic: 'x-dlq-source-topic',
+  partition: 'x-dlq-source-partition',
+  offset: 'x-dlq-source-offset',
+  failedAt: 'x-dlq-failed-at',
+} as const;
+export type DlqReason = 'invalid_message' | 'persist_failed';
+
+const MAX_DELAY_MS = 10 * 1000; // stay well below the consumer session timeout
+
+export function parseComment(value: Buffer | null): { ok: true; row: CommentRow } | { ok: false; error: string } {
+  if (!value) return { ok: false, error: 'empty message' };
+  let data: any;
+  try { data = JSON.parse(value.toString()); } catch { return { ok: false, error: 'invalid json' }; }
+  if (!data || !data.id || !data.videoId || !data.userId || !data.content) return { ok: false, error: 'missing id, videoId, userId or content' };
+  const createdAt = new Date(data.createdAt);
+  return {
+    ok: true,
+    row: {
+      // The producer's id is the primary key, so redelivered messages are skipped as duplicates
+      id: String(data.id),
+      videoId: String(data.videoId),
+      userId: String(data.userId),
+      content: String(data.content),
+      createdAt: Number.isNaN(createdAt.getTime()) ? new Date() : createdAt,
+      replyToId: data.replyToId ? String(data.replyToId) : null,
+      replyToUserId: data.replyToUserId ? String(data.replyToUserId) : null,
+      rootId: data.rootId ? String(data.rootId) : null,
+      depth: Number.isInteger(data.depth) && data.depth > 0 ? data.depth : 0,
+      offsetMs: Number.isInteger(data.offsetMs) && data.offsetMs >= 0 ? data.offsetMs : null,
+      status: data.status === 'flagged' || data.status === 'pending' ? data.status : 'visible',
+      moderationReason: data.moderationReason ? String(data.moderationReason) : null,
+    },
+  };
+}
+
+export function toDlqMessage(source: { topic: string; partition: number }, message: KafkaMessage, reason: DlqReason, error: string, attempts: number): Message {
+  const headers: IHeaders = {
+    ...(message.headers || {}),
+    [DLQ_HEADERS.reason]: reason,
+    [DLQ_HEADERS.error]: error.slice(0, 1000),
+    [DLQ_HEADERS.attempts]: String(attempts),
+    [DLQ_HEADERS.topic]: source.topic,
+    [DLQ_HEADERS.partition]: String(source.partition),
+    [DLQ_HEADERS.offset]: message.offset,
+    [DLQ_HEADERS.failedAt]: new Date().toISOString(),
+  };
+  return { key: message.key, value: message.value, headers };
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Persists one batch. Offsets are resolved only once every message is either
+// stored or parked in the DLQ; if the DLQ itself is unreachable this throws
+// and the batch is redelivered.
+export async function handleBatch(ctx: BatchContext, opts: BatchOptions) {
+  const { batch } = ctx;
+  const maxAttempts = opts.maxAttempts ?? 5;
+  const baseDelayMs = opts.baseDelayMs ?? 500;
+  const sleep = opts.sleep ?? defaultSleep;
+  const source = { topic: batch.topic, partition: batch.partition };
+
+  const rows: CommentRow[] = [];
+  const valid: KafkaMessage[] = [];
+  const invalid: Message[] = [];
+  let lastOffset: string | null = null;
+  for (const message of batch.messages) {
+    if (!ctx.isRunning() || ctx.isStale()) break;
+    const parsed = parseComment(message.value);
+    if (parsed.ok) {
+      rows.push(parsed.row);
+      valid.push(message);
+    } else {
+      invalid.push(toDlqMessage(source, message, 'invalid_message', parsed.error, 0));
+    }
+    lastOffset = message.offset;
+  }
+  if (lastOffset === null) return { persisted: 0, deadLettered: 0 };
+
+  if (invalid.length > 0) await opts.producer.send({ topic: TOPIC_COMMENTS_DLQ, messages: invalid });
+
+  let persisted = 0;
+  let deadLettered = invalid.length;
+  if (rows.length > 0) {
+    let lastError = '';
+    let attempt = 0;
+    for (; attempt < maxAttempts; attempt++) {
+      try {
+        persisted = await opts.persist(rows);
+        lastError = '';
+        break;
+      } catch (e) {
+        lastError = e instanceof Error ? e.message : String(e);
+        // eslint-disable-next-line no-console
+        console.error(`Database batch insert failed (attempt ${attempt + 1}/${maxAttempts}):`, lastError);
+        if (attempt + 1 < maxAttempts) await sleep(Math.min(baseDelayMs * 2 ** attempt, MAX_DELAY_MS));
+        await ctx.heartbeat();
+      }
+    }
+    if (lastError) {
+      await opts.producer.send({ topic: TOPIC_COMMENTS_DLQ, messages: valid.map((m) => toDlqMessage(source, m, 'persist_failed', lastError, maxAttempts)) });
+      deadLettered += valid.length;
+    }
+  }
+
+  ctx.resolveOffset(lastOffset);
+  await ctx.heartbeat();
+  return { persisted, deadLettered };
+}
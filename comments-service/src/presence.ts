@@ -0,0 +1,121 @@
+import Redis from 'ioredis';
+
+// Cluster-wide room presence. Every open socket is a member of the
+// presence:{roomId} sorted set, scored by the time it expires; nodes refresh
+// their own members on each heartbeat, so a crashed node's viewers drop out
+// after PRESENCE_TTL_MS. Without REDIS_URL (or when Redis errors) counts are
+// kept in-process.
+//
+// Each tick one node per room (whoever takes presence:tick:{roomId}) samples the
+// count into presence:stats:{roomId}: peak and viewer-milliseconds, from which
+// live-service derives the average when the stream ends.
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export const PRESENCE_INTERVAL_MS = envNumber('PRESENCE_INTERVAL_MS', 10 * 1000);
+export const PRESENCE_TTL_MS = PRESENCE_INTERVAL_MS * 3;
+const STATS_TTL_SECONDS = 7 * 24 * 3600;
+
+export type PresenceStats = { roomId: string; viewers: number; peak: number; viewerMs: number; since: string | null };
+
+// KEYS: members, stats, tick lock. ARGV: nowMs, intervalMs, statsTtlSeconds.
+// Returns the viewer count, or -1 when another node already sampled this tick.
+const SAMPLE_LUA = `
+local now = tonumber(ARGV[1])
+local interval = tonumber(ARGV[2])
+if not redis.call('SET', KEYS[3], '1', 'PX', interval - 100, 'NX') then return -1 end
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+local n = redis.call('ZCARD', KEYS[1])
+redis.call('HSETNX', KEYS[2], 'since', now)
+local peak = tonumber(redis.call('HGET', KEYS[2], 'peak')) or 0
+if n > peak then redis.call('HSET', KEYS[2], 'peak', n) end
+redis.call('HINCRBY', KEYS[2], 'viewerMs', n * interval)
+redis.call('EXPIRE', KEYS[2], tonumber(ARGV[3]))
+return n
+`;
+
+type LocalStats = { peak: number; viewerMs: number; since: number };
+
+export function createPresence(redis: Redis | null) {
+  const members = new Map<string, Map<string, number>>();
+  const stats = new Map<string, LocalStats>();
+  const key = (roomId: string) => `presence:${roomId}`;
+  const statsKey = (roomId: string) => `presence:stats:${roomId}`;
+
+  function warn(e: unknown) {
+    // eslint-disable-next-line no-console
+    console.error('[presence] redis failed, using local counts:', e instanceof Error ? e.message : e);
+  }
+
+  function localCount(roomId: string, now: number) {
+    const room = members.get(roomId);
+    if (!room) return 0;
+    for (const [id, expiresAt] of room) if (expiresAt <= now) room.delete(id);
+    if (room.size === 0) members.delete(roomId);
+    return room.size;
+  }
+
+  // Adds or refreshes this node's connections in a room
+  async function heartbeat(roomId: string, connIds: string[]) {
+    if (connIds.length === 0) return;
+    const expiresAt = Date.now() + PRESENCE_TTL_MS;
+    if (!members.has(roomId)) members.set(roomId, new Map());
+    for (const id of connIds) members.get(roomId)!.set(id, expiresAt);
+    if (redis) {
+      try {
+        await redis.zadd(key(roomId), ...connIds.flatMap((id) => [expiresAt, id]));
+        await redis.pexpire(key(roomId), PRESENCE_TTL_MS);
+      } catch (e) { warn(e); }
+    }
+  }
+
+  async function leave(roomId: string, connId: string) {
+    members.get(roomId)?.delete(connId);
+    if (redis) {
+      try { await redis.zrem(key(roomId), connId); } catch (e) { warn(e); }
+    }
+  }
+
+  async function count(roomId: string): Promise<number> {
+    const now = Date.now();
+    if (redis) {
+      try { return await redis.zcount(key(roomId), `(${now}`, '+inf'); } catch (e) { warn(e); }
+    }
+    return localCount(roomId, now);
+  }
+
+  // Samples the room once per interval across the cluster. Returns the count
+  // when this node took the sample (and should broadcast it), otherwise null.
+  async function sample(roomId: string): Promise<number | null> {
+    const now = Date.now();
+    if (redis) {
+      try {
+        const n = Number(await redis.eval(SAMPLE_LUA, 3, key(roomId), statsKey(roomId), `presence:tick:${roomId}`, now, PRESENCE_INTERVAL_MS, STATS_TTL_SECONDS));
+        return n < 0 ? null : n;
+      } catch (e) { warn(e); }
+    }
+    const n = localCount(roomId, now);
+    const s = stats.get(roomId) || { peak: 0, viewerMs: 0, since: now };
+    s.peak = Math.max(s.peak, n);
+    s.viewerMs += n * PRESENCE_INTERVAL_MS;
+    stats.set(roomId, s);
+    return n;
+  }
+
+  async function getStats(roomId: string): Promise<PresenceStats> {
+    const viewers = await count(roomId);
+    if (redis) {
+      try {
+        const h = await redis.hgetall(statsKey(roomId));
+        return { roomId, viewers, peak: Math.max(Number(h.peak) || 0, viewers), viewerMs: Number(h.viewerMs) || 0, since: h.since ? new Date(Number(h.since)).toISOString() : null };
+      } catch (e) { warn(e); }
+    }
+    const s = stats.get(roomId);
+    return { roomId, viewers, peak: Math.max(s?.peak ?? 0, viewers), viewerMs: s?.viewerMs ?? 0, since: s ? new Date(s.since).toISOString() : null };
+  }
+
+  return { heartbeat, leave, count, sample, getStats };
+}
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+// WebSocket protocol for comment rooms. Clients connect to
+// ws://host:port/?roomId=...&v=1[&token=...][&lastSeenId=...] and exchange JSON frames.
+// Every frame has a `type`; `v` is optional and defaults to the current version.
+//
+// client -> server
+//   { type: 'auth', token }
+//   { type: 'comment', clientMsgId?, content, replyToId?, offsetMs?, scope? }
+//   { type: 'resume', lastSeenId, scope? }
+//   { type: 'ping', ts? }  /  { type: 'pong' }
+// server -> client
+//   hello, authenticated, ack { clientMsgId, id, createdAt, status? }, error { error, clientMsgId?, ... },
+//   resume { items, gap }, ping / pong, and the room broadcasts
+//   (comment, delete, presence, slow_mode, ended)
+// The private user:{id} channel only accepts that user's handshake token and
+// carries notification / notifications_read frames.
+
+export const PROTOCOL_VERSION = 1;
+
+const base = { v: z.literal(PROTOCOL_VERSION).optional() };
+
+export const clientFrameSchema = z.discriminatedUnion('type', [
+  z.object({ ...base, type: z.literal('auth'), token: z.string().min(1) }),
+  z.object({
+    ...base,
+    type: z.literal('comment'),
+    clientMsgId: z.string().min(1).max(100).optional(),
+    // Defaults to the connection's room; comments for other rooms are refused
+    videoId: z.string().min(1).optional(),
+    content: z.string().min(1).max(2000),
+    // Parent comment; the replied-to user is taken from it
+    replyToId: z.string().optional(),
+    offsetMs: z.number().int().min(0).optional(),
+    scope: z.string().optional(),
+  }),
+  z.object({ ...base, type: z.literal('resume'), lastSeenId: z.string().min(1), scope: z.string().optional() }),
+  z.object({ ...base, type: z.literal('ping'), ts: z.number().optional() }),
+  z.object({ ...base, type: z.literal('pong') }),
+]);
+export type ClientFrame = z.infer<typeof clientFrameSchema>;
+
+export type ErrorCode =
+  | 'bad_json'
+  | 'invalid_frame'
+  | 'unsupported_version'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'wrong_room'
+  | 'invalid_parent'
+  | 'room_not_found'
+  | 'comments_disabled'
+  | 'followers_only'
+  | 'rate_limited'
+  | 'comment_rejected'
+  | 'internal';
+
+export type ServerFrame =
+  | { type: 'hello'; v: number; roomId: string; userId: string | null; pingIntervalMs: number }
+  | { type: 'authenticated'; userId: string }
+  | { type: 'ack'; clientMsgId: string | null; id: string; createdAt: string; status?: string }
+  | { type: 'error'; error: ErrorCode; clientMsgId?: string | null; [k: string]: unknown }
+  | { type: 'resume'; items: unknown[]; gap: boolean }
+  | { type: 'ping'; ts: number }
+  | { type: 'pong'; ts?: number };
+
+export type ParseResult = { ok: true; frame: ClientFrame } | { ok: false; frame: ServerFrame };
+
+export function parseClientFrame(text: string): ParseResult {
+  let data: any;
+  try { data = JSON.parse(text); } catch { return { ok: false, frame: errorFrame('bad_json') }; }
+  if (data && data.v !== undefined && data.v !== PROTOCOL_VERSION) {
+    return { ok: false, frame: errorFrame('unsupported_version', { clientMsgId: data.clientMsgId ?? null, supported: [PROTOCOL_VERSION] }) };
+  }
+  const parsed = clientFrameSchema.safeParse(data);
+  if (!parsed.success) {
+    return { ok: false, frame: errorFrame('invalid_frame', { clientMsgId: data?.clientMsgId ?? null, details: parsed.error.flatten() }) };
+  }
+  return { ok: true, frame: parsed.data };
+}
+
+export function errorFrame(error: ErrorCode, extra: Record<string, unknown> = {}): ServerFrame {
+  return { type: 'error', error, ...extra };
+}
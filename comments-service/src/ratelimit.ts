@@ -0,0 +1,142 @@
+import Redis from 'ioredis';
+
+// Token-bucket flood control for chat. Buckets live in Redis so every node
+// shares them; without REDIS_URL (or when Redis errors) an in-process map is used.
+
+export type BucketRule = { burst: number; ratePerSec: number };
+export type LimitScope = 'user' | 'ip' | 'room' | 'slow_mode';
+export type LimitResult = { allowed: true } | { allowed: false; scope: LimitScope; retryAfterMs: number };
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export const RULES: Record<'user' | 'ip' | 'room', BucketRule> = {
+  user: { burst: envNumber('RATE_USER_BURST', 5), ratePerSec: envNumber('RATE_USER_PER_SEC', 1) },
+  ip: { burst: envNumber('RATE_IP_BURST', 20), ratePerSec: envNumber('RATE_IP_PER_SEC', 5) },
+  room: { burst: envNumber('RATE_ROOM_BURST', 200), ratePerSec: envNumber('RATE_ROOM_PER_SEC', 50) },
+};
+export const MAX_SLOW_MODE_SECONDS = 3600;
+
+// KEYS[1] bucket; ARGV: burst, ratePerSec, nowMs. Returns { allowed, retryAfterMs }
+const TOKEN_BUCKET_LUA = `
+local burst = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local data = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(data[1]) or burst
+local ts = tonumber(data[2]) or now
+tokens = math.min(burst, tokens + math.max(now - ts, 0) / 1000 * rate)
+local allowed = 0
+local retry = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retry = math.ceil((1 - tokens) / rate * 1000)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(burst / rate * 1000) + 1000)
+return { allowed, retry }
+`;
+
+type Bucket = { tokens: number; ts: number; rule: BucketRule };
+
+export function createRateLimiter(redis: Redis | null) {
+  const buckets = new Map<string, Bucket>();
+  const slowUntil = new Map<string, number>();
+  const slowModes = new Map<string, number>();
+  // Local view of room slow-mode settings, refreshed from Redis every few seconds
+  const slowModeCache = new Map<string, { seconds: number; at: number }>();
+
+  function takeLocal(key: string, rule: BucketRule, now: number) {
+    const b = buckets.get(key) || { tokens: rule.burst, ts: now, rule };
+    b.tokens = Math.min(rule.burst, b.tokens + (Math.max(now - b.ts, 0) / 1000) * rule.ratePerSec);
+    b.ts = now;
+    buckets.set(key, b);
+    if (buckets.size > 50000) {
+      // Drop buckets that are full again; they carry no state
+      for (const [k, v] of buckets) if (v.tokens + ((now - v.ts) / 1000) * v.rule.ratePerSec >= v.rule.burst) buckets.delete(k);
+    }
+    if (b.tokens >= 1) { b.tokens -= 1; return 0; }
+    return Math.ceil(((1 - b.tokens) / rule.ratePerSec) * 1000);
+  }
+
+  async function take(key: string, rule: BucketRule): Promise<number> {
+    const now = Date.now();
+    if (redis) {
+      try {
+        const [allowed, retry] = (await redis.eval(TOKEN_BUCKET_LUA, 1, `rl:${key}`, rule.burst, rule.ratePerSec, now)) as [number, number];
+        return allowed === 1 ? 0 : Number(retry) || 1;
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.error('[ratelimit] redis failed, using local bucket:', e instanceof Error ? e.message : e);
+      }
+    }
+    return takeLocal(key, rule, now);
+  }
+
+  async function getSlowMode(roomId: string): Promise<number> {
+    const cached = slowModeCache.get(roomId);
+    if (cached && Date.now() - cached.at < 5000) return cached.seconds;
+    let seconds = slowModes.get(roomId) || 0;
+    if (redis) {
+      try { seconds = Number(await redis.get(`slowmode:${roomId}`)) || 0; } catch { }
+    }
+    slowModeCache.set(roomId, { seconds, at: Date.now() });
+    return seconds;
+  }
+
+  async function setSlowMode(roomId: string, seconds: number) {
+    const value = Math.min(Math.max(Math.floor(seconds), 0), MAX_SLOW_MODE_SECONDS);
+    if (value === 0) slowModes.delete(roomId); else slowModes.set(roomId, value);
+    slowModeCache.set(roomId, { seconds: value, at: Date.now() });
+    if (redis) {
+      if (value === 0) await redis.del(`slowmode:${roomId}`);
+      else await redis.set(`slowmode:${roomId}`, String(value));
+    }
+    return value;
+  }
+
+  // One message per `seconds` per user in a room
+  async function takeSlowMode(roomId: string, userId: string, seconds: number): Promise<number> {
+    const key = `slow:${roomId}:${userId}`;
+    const ms = seconds * 1000;
+    if (redis) {
+      try {
+        const ok = await redis.set(key, '1', 'PX', ms, 'NX');
+        if (ok) return 0;
+        return Math.max(await redis.pttl(key), 1);
+      } catch { }
+    }
+    const now = Date.now();
+    const until = slowUntil.get(key) || 0;
+    if (until > now) return until - now;
+    slowUntil.set(key, now + ms);
+    if (slowUntil.size > 50000) for (const [k, v] of slowUntil) if (v <= now) slowUntil.delete(k);
+    return 0;
+  }
+
+  // Checks every limit that applies to one chat message, most specific first
+  async function checkComment(ctx: { userId: string; ip: string; roomId: string }): Promise<LimitResult> {
+    const slow = await getSlowMode(ctx.roomId);
+    if (slow > 0) {
+      const retryAfterMs = await takeSlowMode(ctx.roomId, ctx.userId, slow);
+      if (retryAfterMs > 0) return { allowed: false, scope: 'slow_mode', retryAfterMs };
+    }
+    const checks: Array<[LimitScope, string, BucketRule]> = [
+      ['user', `user:${ctx.userId}`, RULES.user],
+      ['ip', `ip:${ctx.ip}`, RULES.ip],
+      ['room', `room:${ctx.roomId}`, RULES.room],
+    ];
+    for (const [scope, key, rule] of checks) {
+      if (scope === 'ip' && !ctx.ip) continue;
+      const retryAfterMs = await take(key, rule);
+      if (retryAfterMs > 0) return { allowed: false, scope, retryAfterMs };
+    }
+    return { allowed: true };
+  }
+
+  return { checkComment, getSlowMode, setSlowMode };
+}
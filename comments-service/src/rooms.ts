@@ -0,0 +1,115 @@
+// Room lookups. A chat room id is either a live stream id (live-service) or a
+// published video id (feed-service); its owner is the author, who also decides
+// who may comment. Lookups are cached per node; feed-service asks every node to
+// drop a room (ROOM_INVALIDATE_CHANNEL) when its settings change.
+
+const LIVE_BASE = process.env.LIVE_BASE || 'http://localhost:4003';
+const FEED_BASE = process.env.FEED_BASE || 'http://localhost:4004';
+const ADMIN_IDS = new Set((process.env.COMMENTS_ADMIN_IDS || '').split(',').map((s) => s.trim()).filter(Boolean));
+const ROOM_CACHE_MS = 60 * 1000;
+// Streams that have not started yet are re-checked quickly so offsets start on time
+const PENDING_CACHE_MS = 5 * 1000;
+// Unknown rooms (or failed lookups) are only remembered long enough to absorb a burst,
+// so a stream or video created right after a miss is usable almost immediately
+const NO_ROOM_CACHE_MS = 2 * 1000;
+
+export const ROOM_INVALIDATE_CHANNEL = 'rooms:invalidate';
+
+export type CommentAudience = 'everyone' | 'followers';
+export type RoomInfo = {
+  kind: 'stream' | 'publish' | null;
+  ownerId: string | null;
+  startedAt: Date | null; // live streams only
+  commentsEnabled: boolean;
+  audience: CommentAudience;
+  holdForApproval: boolean;
+};
+
+const NO_ROOM: RoomInfo = { kind: null, ownerId: null, startedAt: null, commentsEnabled: false, audience: 'everyone', holdForApproval: false };
+
+const roomCache = new Map<string, { info: RoomInfo; at: number }>();
+const followerCache = new Map<string, { following: boolean; at: number }>();
+
+async function fetchJson(url: string): Promise<Record<string, any> | null> {
+  try {
+    // The internal token lets feed-service return drafts and private videos, whose owner may still comment
+    const res = await fetch(url, { headers: { 'x-internal-token': process.env.INTERNAL_API_TOKEN || '' } });
+    if (!res.ok) return null;
+    return (await res.json()) as Record<string, any>;
+  } catch { return null; }
+}
+
+export async function getRoomInfo(roomId: string, fresh = false): Promise<RoomInfo> {
+  const hit = roomCache.get(roomId);
+  if (!fresh && hit) {
+    const ttl = !hit.info.kind ? NO_ROOM_CACHE_MS : hit.info.kind === 'stream' && !hit.info.startedAt ? PENDING_CACHE_MS : ROOM_CACHE_MS;
+    if (Date.now() - hit.at < ttl) return hit.info;
+  }
+  const id = encodeURIComponent(roomId);
+  let info: RoomInfo = NO_ROOM;
+  const stream = await fetchJson(`${LIVE_BASE}/streams/${id}`);
+  if (stream?.authorId) {
+    // Ended streams keep their room (replay, moderation) but take no new comments
+    info = { ...NO_ROOM, kind: 'stream', ownerId: String(stream.authorId), startedAt: stream.startedAt ? new Date(stream.startedAt) : null, commentsEnabled: stream.status !== 'ENDED' };
+  } else {
+    const pub = await fetchJson(`${FEED_BASE}/feeds/${id}`);
+    if (pub?.authorId) {
+      info = {
+        ...NO_ROOM,
+        kind: 'publish',
+        ownerId: String(pub.authorId),
+        // Only the author may comment on drafts, scheduled, private and still-processing videos
+        commentsEnabled: pub.allowComments !== false && (pub.status ?? 'published') === 'published' && pub.visibility !== 'private' && (pub.processingStatus ?? 'ready') === 'ready',
+        audience: pub.commentAudience === 'followers' ? 'followers' : 'everyone',
+        holdForApproval: pub.holdComments === true,
+      };
+    }
+  }
+  if (roomCache.size > 10000) roomCache.clear();
+  roomCache.set(roomId, { info, at: Date.now() });
+  return info;
+}
+
+export function invalidateRoom(roomId: string) {
+  roomCache.delete(roomId);
+}
+
+async function isFollower(ownerId: string, userId: string) {
+  const key = `${ownerId}:${userId}`;
+  const hit = followerCache.get(key);
+  if (hit && Date.now() - hit.at < ROOM_CACHE_MS) return hit.following;
+  let following = false;
+  try {
+    const res = await fetch(`${FEED_BASE}/users/${encodeURIComponent(ownerId)}/followers/${encodeURIComponent(userId)}`);
+    following = res.ok;
+  } catch { }
+  if (followerCache.size > 50000) followerCache.clear();
+  followerCache.set(key, { following, at: Date.now() });
+  return following;
+}
+
+export type CommentAccess = { ok: true; room: RoomInfo } | { ok: false; error: 'room_not_found' | 'comments_disabled' | 'followers_only' };
+
+// Whether userId may comment in the room at all; holding for approval is a moderation verdict
+export async function checkCommentAccess(roomId: string, userId: string): Promise<CommentAccess> {
+  const room = await getRoomInfo(roomId);
+  if (!room.kind) return { ok: false, error: 'room_not_found' };
+  if (room.ownerId === userId || isAdmin(userId)) return { ok: true, room };
+  if (!room.commentsEnabled) return { ok: false, error: 'comments_disabled' };
+  if (room.audience === 'followers' && !(await isFollower(room.ownerId!, userId))) return { ok: false, error: 'followers_only' };
+  return { ok: true, room };
+}
+
+export async function getRoomOwner(roomId: string): Promise<string | null> {
+  return (await getRoomInfo(roomId)).ownerId;
+}
+
+export function isAdmin(userId: string) {
+  return ADMIN_IDS.has(userId);
+}
+
+// The room author and configured admins may moderate a room
+export async function canModerate(roomId: string, userId: string) {
+  if (isAdmin(userId)) return true;
+  return (await getRoomOwner(roomId)) === userId;
+}
@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client';
+import Redis from 'ioredis';
+
+// Reply threading. A reply's parent must be a visible comment of the same
+// video; it may still be only in the Redis hot list when comments are not
+// persisted by default, in which case the caller stores it with the reply.
+// Replies nested deeper than MAX_REPLY_DEPTH attach to the parent's parent, so
+// threads stay readable; replyToUserId still names the user being answered.
+
+export const MAX_REPLY_DEPTH = Math.max(Number(process.env.MAX_REPLY_DEPTH) || 8, 1);
+
+export type ThreadPosition = { replyToId: string; replyToUserId: string; rootId: string; depth: number };
+type ParentRow = { id: string; videoId: string; userId: string; replyToId: string | null; rootId: string | null; depth: number; status?: string };
+export type CachedComment = ParentRow & { content: string; createdAt: string; [k: string]: unknown };
+
+export type ResolveResult =
+  | { ok: true; position: ThreadPosition; unsavedParent: CachedComment | null }
+  | { ok: false; error: 'parent_not_found' };
+
+export function createThreads(prisma: PrismaClient, redis: Redis | null) {
+  const select = { id: true, videoId: true, userId: true, replyToId: true, rootId: true, depth: true, status: true } as const;
+
+  async function fromHotList(scope: string, videoId: string, id: string): Promise<CachedComment | null> {
+    if (!redis) return null;
+    let raw: string[] = [];
+    try { raw = await redis.lrange(`chat:${scope}:${videoId}`, 0, -1); } catch { return null; }
+    for (const s of raw) {
+      try {
+        const item = JSON.parse(s);
+        if (item?.id === id) return { ...item, replyToId: item.replyToId ?? null, rootId: item.rootId ?? null, depth: Number(item.depth) || 0 };
+      } catch { }
+    }
+    return null;
+  }
+
+  async function resolveParent(videoId: string, parentId: string, scope: string): Promise<ResolveResult> {
+    let parent: ParentRow | null = await prisma.comment.findUnique({ where: { id: parentId }, select });
+    let unsavedParent: CachedComment | null = null;
+    if (!parent) {
+      unsavedParent = await fromHotList(scope, videoId, parentId);
+      parent = unsavedParent;
+    }
+    if (!parent || parent.videoId !== videoId || (parent.status && parent.status !== 'visible')) return { ok: false, error: 'parent_not_found' };
+    const replyToUserId = parent.userId;
+    if (parent.depth >= MAX_REPLY_DEPTH && parent.replyToId) {
+      const grand = await prisma.comment.findUnique({ where: { id: parent.replyToId }, select });
+      if (grand) parent = grand;
+    }
+    return {
+      ok: true,
+      position: { replyToId: parent.id, replyToUserId, rootId: parent.rootId ?? parent.id, depth: parent.depth + 1 },
+      unsavedParent,
+    };
+  }
+
+  // Visible direct replies per parent id
+  async function replyCounts(parentIds: string[]): Promise<Map<string, number>> {
+    if (parentIds.length === 0) return new Map();
+    const groups = await prisma.comment.groupBy({ by: ['replyToId'], where: { replyToId: { in: parentIds }, status: 'visible' }, _count: { _all: true } });
+    return new Map(groups.map((g) => [g.replyToId as string, g._count._all]));
+  }
+
+  return { resolveParent, replyCounts, fromHotList };
+}
@@ -0,0 +1,39 @@
+import Redis from 'ioredis';
+
+// Hourly comment counts per room (volume:{roomId} hash of hour -> count), used
+// as an engagement signal by feed-service's ranking. Counting happens on
+// delivery, so rooms whose comments are not persisted are counted too.
+// Without Redis, counts() returns null and callers fall back to Postgres.
+
+const MAX_HOURS = 7 * 24;
+
+const hourOf = (ms: number) => Math.floor(ms / 3600000);
+
+export function createCommentVolume(redis: Redis | null) {
+  function record(roomId: string, at = Date.now()) {
+    if (!redis) return;
+    const key = `volume:${roomId}`;
+    redis.multi().hincrby(key, String(hourOf(at)), 1).expire(key, (MAX_HOURS + 1) * 3600).exec().catch(() => { });
+  }
+
+  async function counts(roomIds: string[], hours: number, now = Date.now()): Promise<Record<string, number> | null> {
+    if (!redis) return null;
+    const current = hourOf(now);
+    const fields = Array.from({ length: Math.min(Math.max(hours, 1), MAX_HOURS) }, (_, i) => String(current - i));
+    try {
+      const pipeline = redis.pipeline();
+      for (const id of roomIds) pipeline.hmget(`volume:${id}`, ...fields);
+      const results = (await pipeline.exec()) || [];
+      const out: Record<string, number> = {};
+      roomIds.forEach((id, i) => {
+        const values = (results[i]?.[1] as Array<string | null>) || [];
+        out[id] = values.reduce((sum, v) => sum + (Number(v) || 0), 0);
+      });
+      return out;
+    } catch {
+      return null;
+    }
+  }
+
+  return { record, counts, MAX_HOURS };
+}
@@ -1,64 +1,45 @@
 import { PrismaClient } from '@prisma/client';
 import { kafka, TOPIC_COMMENTS } from './kafka';
+import { handleBatch, CommentRow } from './persist';
 import 'dotenv/config';
+import { createLogger } from '@yoom/observability';
+
+// JSON logs like the HTTP server
+createLogger('comments-worker').installConsole();
 
 const prisma = new PrismaClient();
 
 const consumer = kafka.consumer({ groupId: 'comments-group' });
+// Used to park failed messages on the DLQ topic
+const producer = kafka.producer();
+
+const MAX_ATTEMPTS = Math.max(Number(process.env.WORKER_MAX_ATTEMPTS || 5) || 5, 1);
+const RETRY_BASE_MS = Math.max(Number(process.env.WORKER_RETRY_BASE_MS || 500) || 500, 0);
 
 // eslint-disable-next-line no-console
 console.log('Worker started, listening for comments to persist...');
 
+async function persist(rows: CommentRow[]) {
+  const result = await prisma.comment.createMany({ data: rows, skipDuplicates: true });
+  return result.count;
+}
+
 async function startWorker() {
+  await producer.connect();
   await consumer.connect();
   await consumer.subscribe({ topic: TOPIC_COMMENTS, fromBeginning: true });
   // eslint-disable-next-line no-console
   console.log('Kafka Consumer connected and subscribed.');
 
   await consumer.run({
-    eachBatch: async ({ batch, resolveOffset, heartbeat, isRunning, isStale }) => {
-      const validComments = [];
-
-      for (const message of batch.messages) {
-        if (!isRunning() || isStale()) break;
-
-        try {
-          const commentData = JSON.parse(message.value.toString());
-          if (commentData && commentData.videoId && commentData.userId && commentData.content) {
-            validComments.push({
-              videoId: String(commentData.videoId),
-              userId: String(commentData.userId),
-              content: String(commentData.content),
-            });
-          } else {
-            // Here you would ideally send to a DLQ topic
-            // eslint-disable-next-line no-console
-            console.warn('Invalid message structure, skipping:', message.value.toString());
-          }
-        } catch (e) {
-          // eslint-disable-next-line no-console
-          console.warn('Failed to parse message, skipping:', message.value.toString());
-        }
-
-        resolveOffset(message.offset);
-        await heartbeat();
-      }
-
-      if (validComments.length > 0) {
-        try {
-          const result = await prisma.comment.createMany({
-            data: validComments,
-            skipDuplicates: true,
-          });
-          // eslint-disable-next-line no-console
-          console.log(`Successfully persisted ${result.count} of ${validComments.length} comments.`);
-        } catch (dbError) {
-          // In a real-world scenario, you'd have a robust retry or DLQ strategy here.
-          // For now, we log the error. The offsets are committed, so these messages won't be reprocessed.
-          // eslint-disable-next-line no-console
-          console.error('Database batch insert failed:', dbError);
-        }
-      }
+    // Offsets are resolved by handleBatch only after messages are stored or dead-lettered
+    eachBatchAutoResolve: false,
+    eachBatch: async (ctx) => {
+      const { persisted, deadLettered } = await handleBatch(ctx, { persist, producer, maxAttempts: MAX_ATTEMPTS, baseDelayMs: RETRY_BASE_MS });
+      // eslint-disable-next-line no-console
+      if (persisted > 0) console.log(`Successfully persisted ${persisted} comments.`);
+      // eslint-disable-next-line no-console
+      if (deadLettered > 0) console.warn(`Sent ${deadLettered} messages to the DLQ.`);
     },
   });
 
@@ -66,6 +47,7 @@ async function startWorker() {
     // eslint-disable-next-line no-console
     console.log('Shutting down consumer gracefully...');
     await consumer.disconnect();
+    await producer.disconnect();
     process.exit(0);
   };
 
@@ -0,0 +1,41 @@
+import { PrismaClient } from '@prisma/client';
+import 'dotenv/config';
+
+// 把旧 Reply 表中的回复导入 comments-service（POST /comments/import，需要 INTERNAL_API_TOKEN）。
+// 回复保留原 id，可以重复运行；全部导入后才可以删除 Reply 表。
+
+const COMMENTS_BASE = process.env.COMMENTS_BASE || 'http://localhost:4001';
+const BATCH = 500;
+
+const prisma = new PrismaClient();
+
+async function main() {
+  let cursor: string | undefined;
+  const total = { imported: 0, skipped: 0, orphaned: 0 };
+  for (;;) {
+    const replies = await prisma.reply.findMany({ orderBy: { id: 'asc' }, take: BATCH, ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}) });
+    if (replies.length === 0) break;
+    const res = await fetch(`${COMMENTS_BASE}/comments/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-internal-token': process.env.INTERNAL_API_TOKEN || '' },
+      body: JSON.stringify({
+        items: replies.map((r) => ({ id: r.id, videoId: r.publishId, userId: r.authorId, content: r.content, createdAt: r.createdAt.toISOString(), replyToId: r.commentId })),
+      }),
+    });
+    if (!res.ok) throw new Error(`comments import returned ${res.status}: ${await res.text()}`);
+    const result = (await res.json()) as typeof total;
+    total.imported += result.imported;
+    total.skipped += result.skipped;
+    total.orphaned += result.orphaned;
+    cursor = replies[replies.length - 1].id;
+  }
+  // orphaned：父评论不在 comments-service（未持久化的弹幕），作为顶层评论导入
+  console.log(`[feed] replies backfill done: ${JSON.stringify(total)}`);
+}
+
+main()
+  .catch((e) => {
+    console.error('[feed] replies backfill failed:', e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,50 @@
+// Opaque keyset cursors: base64url of { t: createdAt in ms, id }. Rows are
+// ordered by (createdAt, id) so pages stay stable while new rows arrive; lists
+// ordered by another timestamp (e.g. publishedAt) pass that field instead.
+
+export type Cursor = { t: number; id: string };
+
+type TimeField = 'createdAt' | 'publishedAt';
+
+export function encodeCursor(row: { createdAt: Date | string; id: string }): string;
+export function encodeCursor(row: { publishedAt: Date | string; id: string }, field: 'publishedAt'): string;
+export function encodeCursor(row: Record<string, any>, field: TimeField = 'createdAt'): string {
+  const key: Cursor = { t: new Date(row[field]).getTime(), id: row.id };
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+// Cursor into one ranking snapshot: { g: snapshot time in ms, r: last rank returned }
+export type RankCursor = { g: number; r: number };
+
+export function encodeRankCursor(key: RankCursor): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+export function decodeRankCursor(raw: string | undefined): RankCursor | null | undefined {
+  if (!raw) return undefined;
+  try {
+    const c = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    return Number.isInteger(c?.g) && Number.isInteger(c?.r) ? { g: c.g, r: c.r } : null;
+  } catch { return null; }
+}
+
+// undefined: no cursor given; null: malformed
+export function decodeCursor(raw: string | undefined): Cursor | null | undefined {
+  if (!raw) return undefined;
+  try {
+    const c = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    return typeof c?.t === 'number' && typeof c?.id === 'string' ? { t: c.t, id: c.id } : null;
+  } catch { return null; }
+}
+
+export function parseLimit(raw: string | undefined, fallback: number, max: number) {
+  const n = Math.floor(Number(raw));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, max) : fallback;
+}
+
+// Prisma filter for rows strictly after the cursor in the given direction
+export function keysetWhere(cursor: Cursor, direction: 'asc' | 'desc', field: TimeField = 'createdAt') {
+  const op = direction === 'desc' ? 'lt' : 'gt';
+  const at = new Date(cursor.t);
+  return { OR: [{ [field]: { [op]: at } }, { [field]: at, id: { [op]: cursor.id } }] };
+}
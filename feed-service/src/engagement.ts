@@ -0,0 +1,190 @@
+import { PrismaClient } from '@prisma/client';
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+
+// 点赞、播放和观看时长。点赞记录直接写 Postgres（主键保证幂等），
+// 计数增量先缓冲在 Redis 的 engage:pending 哈希里（字段 publishId|日期|指标），
+// 由 flush() 定期批量写入 Publish 计数和 PublishDailyStat。
+// 没有 REDIS_URL 时缓冲和去重都在进程内完成。
+//
+// flush 把 engage:pending 改名为 engage:flushing:{批次 id} 后逐行写库。每行写库时
+// 在同一事务里记一条 EngagementFlush（批次 id + 行），重复写同一行会被跳过；
+// 进程在写完前退出时，批次留在 Redis，下次任意实例 flush 时接着处理。
+
+export const VIEW_DEDUP_SECONDS = Math.max(Number(process.env.VIEW_DEDUP_SECONDS) || 30 * 60, 1);
+// 两次观看心跳之间最多计入的秒数，防止断线重连或伪造心跳刷时长
+export const WATCH_MAX_CREDIT_SECONDS = Math.max(Number(process.env.WATCH_MAX_CREDIT_SECONDS) || 30, 1);
+
+type Metric = 'likes' | 'views' | 'watchSeconds';
+const PENDING_KEY = 'engage:pending';
+const FLUSHING_PREFIX = 'engage:flushing:';
+// 同一时间只有一个实例在 flush
+const FLUSH_LOCK_KEY = 'engage:flush-lock';
+const FLUSH_LOCK_MS = 5 * 60 * 1000;
+// 已写库标记保留的时间，足够覆盖批次的重试
+const FLUSH_MARK_RETENTION_MS = 7 * 24 * 3600 * 1000;
+
+const dayOf = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+export function createEngagement(prisma: PrismaClient, redis: Redis | null) {
+  const localPending = new Map<string, number>();
+  const localSeen = new Map<string, number>(); // 去重键 -> 过期时间 / 上次心跳时间
+
+  function warn(e: unknown) {
+    console.error('[engagement] redis failed, buffering locally:', e instanceof Error ? e.message : e);
+  }
+
+  async function add(publishId: string, metric: Metric, delta: number, at = Date.now()) {
+    const field = `${publishId}|${dayOf(at)}|${metric}`;
+    if (redis) {
+      try { await redis.hincrby(PENDING_KEY, field, delta); return; } catch (e) { warn(e); }
+    }
+    localPending.set(field, (localPending.get(field) ?? 0) + delta);
+  }
+
+  // 同一去重键在 ttl 秒内只返回一次 true
+  async function firstSeen(key: string, ttlSeconds: number) {
+    if (redis) {
+      try { return (await redis.set(key, '1', 'EX', ttlSeconds, 'NX')) === 'OK'; } catch (e) { warn(e); }
+    }
+    const now = Date.now();
+    if ((localSeen.get(key) ?? 0) > now) return false;
+    if (localSeen.size > 100000) for (const [k, exp] of localSeen) if (exp <= now) localSeen.delete(k);
+    localSeen.set(key, now + ttlSeconds * 1000);
+    return true;
+  }
+
+  async function like(publishId: string, userId: string) {
+    const { count } = await prisma.publishLike.createMany({ data: [{ publishId, userId }], skipDuplicates: true });
+    if (count > 0) await add(publishId, 'likes', 1);
+    return count > 0;
+  }
+
+  async function unlike(publishId: string, userId: string) {
+    const { count } = await prisma.publishLike.deleteMany({ where: { publishId, userId } });
+    if (count > 0) await add(publishId, 'likes', -1);
+    return count > 0;
+  }
+
+  // 点赞记录已在别处（如事件事务里）删除：只把 -1 放进计数缓冲
+  async function likesRemoved(publishIds: string[]) {
+    for (const publishId of publishIds) await add(publishId, 'likes', -1);
+  }
+
+  async function likedBy(userId: string | null, publishIds: string[]) {
+    if (!userId || publishIds.length === 0) return new Set<string>();
+    const rows = await prisma.publishLike.findMany({ where: { userId, publishId: { in: publishIds } }, select: { publishId: true } });
+    return new Set(rows.map((r) => r.publishId));
+  }
+
+  // viewer：登录用户为 u:{userId}，匿名为调用方提供的设备/IP 标识
+  async function recordView(publishId: string, viewer: string) {
+    const counted = await firstSeen(`view:${publishId}:${viewer}`, VIEW_DEDUP_SECONDS);
+    if (counted) await add(publishId, 'views', 1);
+    return counted;
+  }
+
+  // 观看心跳：按距上次心跳的真实间隔计入时长（有上限）；首个心跳只建立基准
+  async function recordWatch(publishId: string, viewer: string, now = Date.now()) {
+    const key = `watch:${publishId}:${viewer}`;
+    let last: number | null = null;
+    if (redis) {
+      try {
+        last = Number(await redis.getset(key, String(now))) || null;
+        await redis.expire(key, WATCH_MAX_CREDIT_SECONDS * 4);
+      } catch (e) { warn(e); }
+    }
+    if (!redis) {
+      last = localSeen.get(key) ?? null;
+      localSeen.set(key, now);
+    }
+    const credited = last ? Math.min(Math.max(Math.round((now - last) / 1000), 0), WATCH_MAX_CREDIT_SECONDS) : 0;
+    if (credited > 0) await add(publishId, 'watchSeconds', credited, now);
+    return credited;
+  }
+
+  // 把一个批次（字段 publishId|日期|指标 -> 增量）按行（publishId|日期）写库，
+  // 已写过的行跳过；每写完一行调用 onWritten。返回批次的行数
+  async function applyBatch(batchId: string, pending: Record<string, string>, onWritten: (key: string) => Promise<void>) {
+    const daily = new Map<string, { publishId: string; day: string; likes: number; views: number; watchSeconds: number }>();
+    for (const [field, value] of Object.entries(pending)) {
+      const [publishId, day, metric] = field.split('|');
+      const key = `${publishId}|${day}`;
+      const row = daily.get(key) || { publishId, day, likes: 0, views: 0, watchSeconds: 0 };
+      row[metric as Metric] += Number(value) || 0;
+      daily.set(key, row);
+    }
+    for (const [key, row] of daily) {
+      const day = new Date(`${row.day}T00:00:00Z`);
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.engagementFlush.createMany({ data: [{ batchId, key }], skipDuplicates: true });
+        if (count === 0) return;
+        await tx.publishDailyStat.upsert({
+          where: { publishId_day: { publishId: row.publishId, day } },
+          create: { publishId: row.publishId, day, likes: row.likes, views: row.views, watchSeconds: row.watchSeconds },
+          update: { likes: { increment: row.likes }, views: { increment: row.views }, watchSeconds: { increment: row.watchSeconds } },
+        });
+        await tx.publish.updateMany({
+          where: { id: row.publishId },
+          data: { likeCount: { increment: row.likes }, viewCount: { increment: row.views }, watchSeconds: { increment: row.watchSeconds } },
+        });
+      });
+      await onWritten(key);
+    }
+    return daily.size;
+  }
+
+  async function flushLocal() {
+    const pending = Object.fromEntries([...localPending].map(([k, v]) => [k, String(v)]));
+    localPending.clear();
+    const written = new Set<string>();
+    try {
+      return await applyBatch(randomUUID(), pending, async (key) => { written.add(key); });
+    } catch (e) {
+      // 把未写入的增量放回本地缓冲
+      for (const [field, value] of Object.entries(pending)) {
+        if (!written.has(field.slice(0, field.lastIndexOf('|')))) localPending.set(field, (localPending.get(field) ?? 0) + Number(value));
+      }
+      throw e;
+    }
+  }
+
+  async function flushBatch(r: Redis, batchKey: string) {
+    const pending = await r.hgetall(batchKey);
+    const rows = await applyBatch(batchKey.slice(FLUSHING_PREFIX.length), pending, async (key) => {
+      // 删除失败也没关系：标记已在库里，下次会跳过这一行
+      await r.hdel(batchKey, `${key}|likes`, `${key}|views`, `${key}|watchSeconds`).catch(() => 0);
+    });
+    await r.del(batchKey);
+    return rows;
+  }
+
+  async function flush() {
+    if (!redis) return flushLocal();
+    const token = randomUUID();
+    if ((await redis.set(FLUSH_LOCK_KEY, token, 'PX', FLUSH_LOCK_MS, 'NX')) !== 'OK') return 0;
+    try {
+      // 先处理以前没写完的批次（包括已退出进程留下的），再接走当前缓冲
+      let rows = 0;
+      const leftover: string[] = [];
+      let cursor = '0';
+      do {
+        const [next, keys] = await redis.scan(cursor, 'MATCH', `${FLUSHING_PREFIX}*`, 'COUNT', 100);
+        leftover.push(...keys);
+        cursor = next;
+      } while (cursor !== '0');
+      for (const key of leftover) rows += await flushBatch(redis, key);
+      const batchKey = `${FLUSHING_PREFIX}${randomUUID()}`;
+      let taken = true;
+      try { await redis.rename(PENDING_KEY, batchKey); } catch { taken = false; } // 没有缓冲时 RENAME 报错
+      if (taken) rows += await flushBatch(redis, batchKey);
+      await prisma.engagementFlush.deleteMany({ where: { appliedAt: { lt: new Date(Date.now() - FLUSH_MARK_RETENTION_MS) } } });
+      return rows;
+    } finally {
+      // 只释放自己持有的锁
+      await redis.eval("if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0", 1, FLUSH_LOCK_KEY, token).catch(() => 0);
+    }
+  }
+
+  return { like, unlike, likesRemoved, likedBy, recordView, recordWatch, flush };
+}
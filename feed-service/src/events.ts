@@ -0,0 +1,74 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Kafka } from 'kafkajs';
+import { EventHandlers, EventType, handleEventMessage, OnceFn, OutboxStore, startOutboxRelay, topicsFor } from '@yoom/events';
+
+// 领域事件的 Kafka 部分：把本服务 outbox 里的事件发出去，并运行消费者。
+// 处理函数拿到的是记录“已处理”的同一个事务；数据库以外的副作用（Redis 等）
+// 用 afterCommit 登记，事务提交后才执行。
+
+export const kafka = new Kafka({
+  clientId: 'yoom-feed-service',
+  brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
+});
+
+const OUTBOX_RETENTION_MS = Number(process.env.OUTBOX_RETENTION_HOURS || 72) * 3600 * 1000;
+
+function outboxStore(prisma: PrismaClient): OutboxStore {
+  return {
+    pending: (limit) => prisma.outboxEvent.findMany({ where: { sentAt: null }, orderBy: { createdAt: 'asc' }, take: limit }),
+    markSent: async (ids) => {
+      await prisma.outboxEvent.updateMany({ where: { id: { in: ids } }, data: { sentAt: new Date() } });
+      await prisma.outboxEvent.deleteMany({ where: { sentAt: { lt: new Date(Date.now() - OUTBOX_RETENTION_MS) } } });
+    },
+    markFailed: async (ids, error) => {
+      await prisma.outboxEvent.updateMany({ where: { id: { in: ids } }, data: { attempts: { increment: 1 }, lastError: error.slice(0, 1000) } });
+    },
+  };
+}
+
+export function startEventRelay(prisma: PrismaClient) {
+  return startOutboxRelay(outboxStore(prisma), async () => {
+    const producer = kafka.producer({ idempotent: true });
+    await producer.connect();
+    return producer;
+  }, { name: 'feed-outbox' });
+}
+
+export type EventContext = { tx: Prisma.TransactionClient; afterCommit(fn: () => Promise<void>): void };
+
+export function startEventConsumer(prisma: PrismaClient, groupId: string, handlers: EventHandlers<EventContext>) {
+  const once: OnceFn<EventContext> = async (eventId, handle) => {
+    const after: Array<() => Promise<void>> = [];
+    const handled = await prisma.$transaction(async (tx) => {
+      after.length = 0;
+      const { count } = await tx.processedEvent.createMany({ data: [{ eventId, consumer: groupId }], skipDuplicates: true });
+      if (count === 0) return false;
+      await handle({ tx, afterCommit: (fn) => { after.push(fn); } });
+      return true;
+    }, { timeout: 60000 });
+    for (const fn of after) {
+      await fn().catch((e) => console.error(`[${groupId}] after-commit step of ${eventId} failed:`, e instanceof Error ? e.message : e));
+    }
+    return handled;
+  };
+  const topics = topicsFor(Object.keys(handlers) as EventType[]);
+  const consumer = kafka.consumer({ groupId });
+  const deadLetter = kafka.producer({ idempotent: true });
+
+  // 消息处理完（或重试后放进 DLQ）才提交 offset，崩溃或重启前收到的事件会重新投递
+  async function start() {
+    try {
+      await deadLetter.connect();
+      await consumer.connect();
+      await consumer.subscribe({ topics, fromBeginning: true });
+      await consumer.run({ eachMessage: async ({ message }) => { await handleEventMessage(message.value, handlers, once, { name: groupId, deadLetter }); } });
+    } catch (e) {
+      console.error(`[${groupId}] consumer failed to start, retrying:`, e instanceof Error ? e.message : e);
+      await consumer.disconnect().catch(() => { });
+      await deadLetter.disconnect().catch(() => { });
+      setTimeout(start, 5000).unref();
+    }
+  }
+  start();
+  return consumer;
+}
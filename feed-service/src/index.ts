@@ -1,78 +1,577 @@
 import { Hono } from 'hono';
+import { cors } from 'hono/cors';
 import { serve } from '@hono/node-server';
-import { PrismaClient } from '@prisma/client';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { Prisma, PrismaClient, Publish, Upload } from '@prisma/client';
 import 'dotenv/config';
 import { z } from 'zod';
-import jwt, { JwtPayload } from 'jsonwebtoken';
+import { createAuth } from '@yoom/auth';
+import Redis from 'ioredis';
+import { createHash, timingSafeEqual } from 'crypto';
+import { decodeCursor, decodeRankCursor, encodeCursor, encodeRankCursor, keysetWhere, parseLimit } from './cursor';
+import { canView, planStatusChange, publishDue, publishEvent, VISIBILITIES } from './publishing';
+import { followingPage, liveStreamsOf } from './timeline';
+import { recomputeRanking } from './rankingJob';
+import { createEngagement } from './engagement';
+import { kafka, startEventConsumer, startEventRelay } from './events';
+import { outboxRecord } from '@yoom/events';
+import { createUploads, UPLOAD_MAX_BYTES, UPLOAD_URL_TTL_SECONDS, VIDEO_TYPES } from './uploads';
+import { createLogger, createMetrics, kafkaCheck, propagateRequestId, readiness, REQUEST_ID_HEADER, requestContext, ReadinessCheck } from '@yoom/observability';
+
+// JSON 日志（包括 console.*），带当前请求的 request id；调用其他服务时透传 request id
+const logger = createLogger('feed-service');
+logger.installConsole();
+propagateRequestId();
+const metrics = createMetrics();
 
 const prisma = new PrismaClient();
 const app = new Hono();
 
-const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
-app.use('*', async (c, next) => {
-  c.header('Access-Control-Allow-Origin', allowedOrigin);
-  c.header('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
-  c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  if (c.req.method === 'OPTIONS') return c.body(null, 204);
-  await next();
+// Redis 可选：用于缓冲互动计数和播放去重，没有时退化为进程内缓冲
+const REDIS_URL = process.env.REDIS_URL;
+const redis = REDIS_URL ? new Redis(REDIS_URL) : null;
+redis?.on('error', (e) => console.error('[feed] redis error:', e.message));
+const engagement = createEngagement(prisma, redis);
+const uploads = createUploads(prisma);
+
+app.use('*', requestContext({ logger, metrics }));
+app.use('*', cors({
+  origin: process.env.ALLOWED_ORIGIN || '*',
+  allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+  exposeHeaders: [REQUEST_ID_HEADER],
+}));
+
+// Access tokens are verified against auth-service's JWKS (shared with the other services)
+const { verify } = createAuth();
+
+app.get('/health', (c) => c.json({ ok: true }));
+
+// 就绪检查：Postgres、Kafka，以及配置了的 Redis
+const readyChecks: Record<string, ReadinessCheck> = {
+  postgres: () => prisma.$queryRaw`SELECT 1`,
+  kafka: kafkaCheck(kafka),
+};
+if (redis) readyChecks.redis = () => redis.ping();
+const checkReady = readiness(readyChecks);
+app.get('/ready', async (c) => {
+  const result = await checkReady();
+  return c.json(result, result.ok ? 200 : 503);
 });
 
-function verify(c: any): { userId: string } | null {
-  const auth = c.req.header('authorization') || c.req.header('Authorization') || '';
-  const token = auth.startsWith('Bearer ') ? auth.slice(7) : '';
-  if (!token) return null;
-  try {
-    const secret = process.env.JWT_SECRET || process.env.AUTH_JWT_SECRET || 'dev-secret';
-    const decoded = jwt.verify(token, secret) as JwtPayload & { sub?: string };
-    if (!decoded?.sub) return null;
-    return { userId: String(decoded.sub) };
-  } catch { return null; }
+app.get('/metrics', (c) => c.text(metrics.render(), 200, { 'Content-Type': 'text/plain; version=0.0.4' }));
+
+// 服务间调用（如 comments-service 查询房间）可以看到未公开的内容
+function isInternalCall(c: any) {
+  const expected = process.env.INTERNAL_API_TOKEN || '';
+  if (!expected) return false;
+  const given = Buffer.from(String(c.req.header('x-internal-token') || ''));
+  return given.length === expected.length && timingSafeEqual(given, Buffer.from(expected));
 }
 
-app.get('/health', (c) => c.json({ ok: true }));
+// 客户端 IP：默认取连接地址；TRUST_PROXY=1（前面是网关）时取 x-forwarded-for 的最后一项，即代理看到的地址
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+function clientIp(c: any): string {
+  if (TRUST_PROXY) {
+    const parts = String(c.req.header('x-forwarded-for') || '').split(',').map((p) => p.trim()).filter(Boolean);
+    if (parts.length) return parts[parts.length - 1];
+  }
+  try { return getConnInfo(c).remote.address || ''; } catch { return ''; }
+}
+
+const COMMENTS_BASE = process.env.COMMENTS_BASE || 'http://localhost:4001';
+
+// 通知 comments-service 丢弃该房间的缓存，新设置立即生效
+function invalidateCommentRoom(id: string) {
+  fetch(`${COMMENTS_BASE}/rooms/${encodeURIComponent(id)}/invalidate`, {
+    method: 'POST',
+    headers: { 'x-internal-token': process.env.INTERNAL_API_TOKEN || '' },
+  }).catch((e) => console.error('[feed] comment settings invalidate failed:', e instanceof Error ? e.message : e));
+}
 
-// 发布视频
-const publishSchema = z.object({ videoKey: z.string().min(1), title: z.string().optional(), allowComments: z.boolean().optional() });
+// 软删除并写入 publish.deleted（comments-service 收到后关闭评论区）
+async function removePublish(db: Prisma.TransactionClient | PrismaClient, pub: Publish) {
+  const write = async (tx: Prisma.TransactionClient) => {
+    await tx.publish.update({ where: { id: pub.id }, data: { status: 'removed', removedAt: new Date(), publishAt: null } });
+    await tx.publishScore.deleteMany({ where: { publishId: pub.id } });
+    await tx.outboxEvent.create({ data: outboxRecord(publishEvent('publish.deleted', pub), pub.id) });
+  };
+  if ('$transaction' in db) await db.$transaction(write);
+  else await write(db);
+}
+
+// 发布视频：videoKey 必须来自本人已完成的上传（见 /uploads）；视频处理完成前只有作者可见
+const publishSchema = z.object({
+  videoKey: z.string().min(1),
+  title: z.string().optional(),
+  allowComments: z.boolean().optional(),
+  commentAudience: z.enum(['everyone', 'followers']).optional(),
+  holdComments: z.boolean().optional(),
+  // 默认直接发布；draft 保存草稿，scheduled 需要 publishAt
+  status: z.enum(['draft', 'scheduled', 'published']).optional(),
+  visibility: z.enum(VISIBILITIES).optional(),
+  publishAt: z.string().datetime().optional(),
+});
 app.post('/publish', async (c) => {
-  const auth = verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
   const body = await c.req.json().catch(() => ({}));
   const parsed = publishSchema.safeParse(body);
   if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
-  const created = await prisma.publish.create({ data: { authorId: auth.userId, videoKey: parsed.data.videoKey, title: parsed.data.title, allowComments: parsed.data.allowComments ?? true } });
+  const { status, publishAt, ...fields } = parsed.data;
+  const plan = planStatusChange({ status: 'draft', publishAt: null }, { status: status ?? (publishAt ? 'scheduled' : 'published'), publishAt });
+  if (!plan.ok) return c.json({ error: plan.error }, 400);
+  const video = await uploads.checkPublishable(auth.userId, fields.videoKey);
+  if (!video.ok) return c.json({ error: video.error }, video.status);
+  const media = { processingStatus: video.upload.status, thumbnailKey: video.upload.thumbnailKey };
+  const created = await prisma.$transaction(async (tx) => {
+    const pub = await tx.publish.create({ data: { ...fields, ...plan.data, ...media, authorId: auth.userId, allowComments: fields.allowComments ?? true } });
+    await tx.outboxEvent.create({ data: outboxRecord(publishEvent('publish.created', pub), pub.id) });
+    return pub;
+  });
   return c.json(created);
 });
 
-// 列出发布（公共）
+// --- 视频上传 ---
+
+// size 是 BigInt，返回前转成数字
+function uploadView(u: Upload) {
+  return {
+    id: u.id, key: u.key, status: u.status, contentType: u.contentType, size: Number(u.size), partSize: u.partSize,
+    thumbnailKey: u.thumbnailKey, durationMs: u.durationMs, error: u.error, createdAt: u.createdAt, completedAt: u.completedAt,
+  };
+}
+
+async function ownUpload(c: any, userId: string) {
+  const upload = await prisma.upload.findUnique({ where: { id: c.req.param('id') } });
+  return upload && upload.userId === userId ? upload : null;
+}
+
+// 开始上传：返回 key、分片大小和每个分片的预签名 PUT 地址（有效期 UPLOAD_URL_TTL_SECONDS）
+const uploadSchema = z.object({
+  contentType: z.string().refine((t) => t in VIDEO_TYPES, 'unsupported video type'),
+  size: z.number().int().positive().max(UPLOAD_MAX_BYTES),
+});
+app.post('/uploads', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = uploadSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const { upload, parts } = await uploads.start(auth.userId, parsed.data);
+  return c.json({ ...uploadView(upload), parts, urlExpiresIn: UPLOAD_URL_TTL_SECONDS });
+});
+
+app.get('/uploads/:id', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const upload = await ownUpload(c, auth.userId);
+  if (!upload) return c.json({ error: 'not found' }, 404);
+  return c.json(uploadView(upload));
+});
+
+// 地址过期后重新签发（可只签指定分片）
+const partsSchema = z.object({ partNumbers: z.array(z.number().int().min(1)).max(10000).optional() });
+app.post('/uploads/:id/parts', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = partsSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const upload = await ownUpload(c, auth.userId);
+  if (!upload) return c.json({ error: 'not found' }, 404);
+  if (upload.status !== 'uploading') return c.json({ error: `upload is ${upload.status}` }, 409);
+  const numbers = parsed.data.partNumbers;
+  if (numbers?.some((n) => n > uploads.partCountOf(upload))) return c.json({ error: 'partNumber out of range' }, 400);
+  return c.json({ parts: await uploads.partUrls(upload, numbers), urlExpiresIn: UPLOAD_URL_TTL_SECONDS });
+});
+
+// 确认上传完成：提交全部分片的 ETag
+const completeSchema = z.object({ parts: z.array(z.object({ partNumber: z.number().int().min(1), etag: z.string().min(1) })).min(1).max(10000) });
+app.post('/uploads/:id/complete', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = completeSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const upload = await ownUpload(c, auth.userId);
+  if (!upload) return c.json({ error: 'not found' }, 404);
+  if (upload.status !== 'uploading') return c.json({ error: `upload is ${upload.status}` }, 409);
+  if (parsed.data.parts.length !== uploads.partCountOf(upload)) return c.json({ error: `expected ${uploads.partCountOf(upload)} parts` }, 400);
+  try {
+    return c.json(uploadView(await uploads.complete(upload, parsed.data.parts)));
+  } catch (e) {
+    // 分片缺失或 ETag 不匹配：保持 uploading，客户端可以补传后重试
+    return c.json({ error: 'complete failed', details: e instanceof Error ? e.message : String(e) }, 400);
+  }
+});
+
+app.delete('/uploads/:id', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const upload = await ownUpload(c, auth.userId);
+  if (!upload) return c.json({ error: 'not found' }, 404);
+  if (upload.status !== 'uploading') return c.json({ error: `upload is ${upload.status}` }, 409);
+  return c.json(uploadView(await uploads.abort(upload)));
+});
+
+// 转码 / 截图任务回调（服务间调用）
+const jobSchema = z.object({
+  job: z.enum(['transcode', 'thumbnail']),
+  status: z.enum(['succeeded', 'failed']),
+  outputKey: z.string().min(1).optional(),
+  durationMs: z.number().int().min(0).optional(),
+  error: z.string().optional(),
+});
+app.post('/uploads/:id/jobs', async (c) => {
+  if (!isInternalCall(c)) return c.json({ error: 'unauthorized' }, 401);
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = jobSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const upload = await prisma.upload.findUnique({ where: { id: c.req.param('id') } });
+  if (!upload) return c.json({ error: 'not found' }, 404);
+  if (upload.status === 'uploading') return c.json({ error: 'upload not completed' }, 409);
+  return c.json(uploadView(await uploads.applyJobResult(upload, parsed.data)));
+});
+
+// 列表和详情附带当前用户是否点过赞（未登录时为 false）
+async function withLiked<T extends { id: string }>(items: T[], userId: string | null) {
+  const liked = await engagement.likedBy(userId, items.map((p) => p.id));
+  return items.map((p) => ({ ...p, liked: liked.has(p.id) }));
+}
+
+// 列出发布（公共，游标分页）：只含已发布的 public 内容，按发布时间倒序。
+// mine=1 返回当前用户自己的全部内容（含草稿、定时、私密），按创建时间倒序。
 app.get('/feeds', async (c) => {
-  const items = await prisma.publish.findMany({ orderBy: { createdAt: 'desc' }, take: 100 });
-  return c.json({ items });
+  const limit = parseLimit(c.req.query('limit'), 20, 100);
+  const cursor = decodeCursor(c.req.query('cursor'));
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  if (c.req.query('mine') === '1') {
+    const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+    const where = { AND: [{ authorId: auth.userId, status: { not: 'removed' } }, cursor ? keysetWhere(cursor, 'desc') : {}] };
+    const rows = await prisma.publish.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], take: limit + 1 });
+    const page = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1]) : null;
+    return c.json({ items: await withLiked(page, auth.userId), nextCursor });
+  }
+  const where = { AND: [{ status: 'published', visibility: 'public', processingStatus: 'ready' }, cursor ? keysetWhere(cursor, 'desc', 'publishedAt') : {}] };
+  const rows = await prisma.publish.findMany({ where, orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }], take: limit + 1 });
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1], 'publishedAt') : null;
+  const auth = await verify(c);
+  return c.json({ items: await withLiked(page, auth?.userId ?? null), nextCursor });
+});
+
+// 关注时间线（需要登录）：第一页先列出关注作者正在进行的直播（kind = live），
+// 之后是关注作者的发布（kind = publish），按发布时间倒序游标分页
+app.get('/feeds/following', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const limit = parseLimit(c.req.query('limit'), 20, 100);
+  const cursor = decodeCursor(c.req.query('cursor'));
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  const [rows, live] = await Promise.all([followingPage(prisma, auth.userId, limit, cursor), cursor ? [] : liveStreamsOf(prisma, auth.userId)]);
+  const posts = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(posts[posts.length - 1], 'publishedAt') : null;
+  const items = [...live.map((stream) => ({ kind: 'live', stream })), ...posts.map((publish) => ({ kind: 'publish', publish }))];
+  return c.json({ items, nextCursor });
+});
+
+// 为你推荐：按后台预计算的 rank 分页（近期互动 + 时间衰减 + 作者多样性）
+app.get('/feeds/for-you', async (c) => {
+  const limit = parseLimit(c.req.query('limit'), 20, 100);
+  const cursor = decodeRankCursor(c.req.query('cursor'));
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  // 第一页取最新快照，之后沿用游标里的快照；快照已被清理时从最新快照的同一名次继续
+  let snapshot = cursor ? new Date(cursor.g) : null;
+  if (snapshot && !(await prisma.publishScore.findFirst({ where: { computedAt: snapshot }, select: { rank: true } }))) snapshot = null;
+  snapshot ??= (await prisma.publishScore.findFirst({ orderBy: { computedAt: 'desc' }, select: { computedAt: true } }))?.computedAt ?? null;
+  if (!snapshot) return c.json({ items: [], nextCursor: null });
+  const scores = await prisma.publishScore.findMany({ where: { computedAt: snapshot, ...(cursor ? { rank: { gt: cursor.r } } : {}) }, orderBy: { rank: 'asc' }, take: limit + 1 });
+  const page = scores.slice(0, limit);
+  // 排名落库后可能已被撤回或改为私密，这里再过滤一次
+  const pubs = await prisma.publish.findMany({ where: { id: { in: page.map((s) => s.publishId) }, status: 'published', visibility: 'public', processingStatus: 'ready' } });
+  const byId = new Map(pubs.map((p) => [p.id, p]));
+  const items = page.flatMap((s) => (byId.has(s.publishId) ? [{ ...byId.get(s.publishId)!, rank: s.rank, score: s.score }] : []));
+  const last = page[page.length - 1];
+  const nextCursor = scores.length > limit && last ? encodeRankCursor({ g: snapshot.getTime(), r: last.rank }) : null;
+  return c.json({ items, nextCursor });
 });
 
-// 单个发布详情（公共）
+// 单个发布详情：unlisted 凭 id 可见；草稿、定时和 private 仅作者可见（其他人一律 404）
 app.get('/feeds/:id', async (c) => {
   const id = c.req.param('id');
   const pub = await prisma.publish.findUnique({ where: { id } });
-  if (!pub) return c.json({ error: 'not found' }, 404);
-  return c.json(pub);
+  if (!pub || pub.status === 'removed') return c.json({ error: 'not found' }, 404);
+  if (isInternalCall(c)) return c.json(pub);
+  const auth = await verify(c);
+  if (!canView(pub, auth?.userId ?? null)) return c.json({ error: 'not found' }, 404);
+  const [item] = await withLiked([pub], auth?.userId ?? null);
+  return c.json(item);
 });
 
-// 记录评论回复（弱引用到 comments-service 的 commentId）
+// 作者修改发布：标题、评论设置、可见性、状态（草稿/定时/发布）和定时时间
+const updateSchema = z.object({
+  title: z.string().optional(),
+  allowComments: z.boolean().optional(),
+  commentAudience: z.enum(['everyone', 'followers']).optional(),
+  holdComments: z.boolean().optional(),
+  visibility: z.enum(VISIBILITIES).optional(),
+  status: z.enum(['draft', 'scheduled', 'published']).optional(),
+  publishAt: z.string().datetime().nullable().optional(),
+});
+app.patch('/feeds/:id', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const id = c.req.param('id');
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = updateSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body', details: parsed.error.flatten() }, 400);
+  const pub = await prisma.publish.findUnique({ where: { id } });
+  if (!pub || pub.status === 'removed') return c.json({ error: 'not found' }, 404);
+  if (pub.authorId !== auth.userId) return c.json({ error: 'forbidden' }, 403);
+  const { status, publishAt, ...fields } = parsed.data;
+  const plan = status !== undefined || publishAt !== undefined ? planStatusChange(pub, { status, publishAt }) : { ok: true as const, data: {} };
+  if (!plan.ok) return c.json({ error: plan.error }, 400);
+  const updated = await prisma.$transaction(async (tx) => {
+    const next = await tx.publish.update({ where: { id }, data: { ...fields, ...plan.data } });
+    // 草稿或定时内容改为直接发布时，同样通知关注者
+    if (pub.status !== 'published' && next.status === 'published') {
+      await tx.outboxEvent.create({ data: outboxRecord(publishEvent('publish.created', next), id) });
+    }
+    return next;
+  });
+  invalidateCommentRoom(id);
+  return c.json(updated);
+});
+
+// 删除（软删除）：从所有列表和详情中消失，评论区随之关闭
+app.delete('/feeds/:id', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const id = c.req.param('id');
+  const pub = await prisma.publish.findUnique({ where: { id } });
+  if (!pub || pub.status === 'removed') return c.json({ error: 'not found' }, 404);
+  if (pub.authorId !== auth.userId) return c.json({ error: 'forbidden' }, 403);
+  await removePublish(prisma, pub);
+  return c.json({ ok: true });
+});
+
+// --- 点赞、播放、观看时长 ---
+
+// 互动只允许针对调用方能看到的内容；不可见时返回 null（路由统一 404）
+async function viewablePublish(id: string, userId: string | null) {
+  const pub = await prisma.publish.findUnique({ where: { id } });
+  if (!pub || pub.status === 'removed' || !canView(pub, userId)) return null;
+  return pub;
+}
+
+// 点赞 / 取消点赞：按用户幂等，重复请求不会重复计数
+app.post('/feeds/:id/like', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const pub = await viewablePublish(c.req.param('id'), auth.userId);
+  if (!pub || pub.status !== 'published') return c.json({ error: 'not found' }, 404);
+  await engagement.like(pub.id, auth.userId);
+  return c.json({ liked: true });
+});
+
+app.delete('/feeds/:id/like', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  await engagement.unlike(c.req.param('id'), auth.userId);
+  return c.json({ liked: false });
+});
+
+// 观看者标识：登录用户按 userId；匿名按客户端 IP 取哈希。
+// 不用客户端自报的 deviceId 之类的标识，否则换一个值就能多计一次
+function viewerOf(c: any, userId: string | null) {
+  if (userId) return `u:${userId}`;
+  return `a:${createHash('sha256').update(clientIp(c) || 'unknown').digest('base64url').slice(0, 22)}`;
+}
+
+// 播放：同一观看者在 VIEW_DEDUP_SECONDS 内只计一次
+app.post('/feeds/:id/view', async (c) => {
+  const auth = await verify(c);
+  const pub = await viewablePublish(c.req.param('id'), auth?.userId ?? null);
+  if (!pub || pub.status !== 'published') return c.json({ error: 'not found' }, 404);
+  const counted = await engagement.recordView(pub.id, viewerOf(c, auth?.userId ?? null));
+  return c.json({ counted });
+});
+
+// 观看心跳：播放期间客户端定期调用，按两次心跳的间隔累计观看时长
+app.post('/feeds/:id/watch', async (c) => {
+  const auth = await verify(c);
+  const pub = await viewablePublish(c.req.param('id'), auth?.userId ?? null);
+  if (!pub || pub.status !== 'published') return c.json({ error: 'not found' }, 404);
+  const credited = await engagement.recordWatch(pub.id, viewerOf(c, auth?.userId ?? null));
+  return c.json({ credited });
+});
+
+// 作者统计：累计计数 + 最近 days 天（默认 30，最多 365）按天的序列，没有数据的日期补 0。
+// 计数每隔 ENGAGEMENT_FLUSH_MS 落库一次，最新的几秒可能还没计入。
+app.get('/feeds/:id/stats', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const pub = await prisma.publish.findUnique({ where: { id: c.req.param('id') } });
+  if (!pub || pub.status === 'removed') return c.json({ error: 'not found' }, 404);
+  if (pub.authorId !== auth.userId) return c.json({ error: 'forbidden' }, 403);
+  const days = parseLimit(c.req.query('days'), 30, 365);
+  const today = new Date(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`).getTime();
+  const since = new Date(today - (days - 1) * 86400000);
+  const rows = await prisma.publishDailyStat.findMany({ where: { publishId: pub.id, day: { gte: since } }, orderBy: { day: 'asc' } });
+  const byDay = new Map(rows.map((r) => [r.day.toISOString().slice(0, 10), r]));
+  const daily = Array.from({ length: days }, (_, i) => {
+    const day = new Date(since.getTime() + i * 86400000).toISOString().slice(0, 10);
+    const r = byDay.get(day);
+    return { day, likes: r?.likes ?? 0, views: r?.views ?? 0, watchSeconds: r?.watchSeconds ?? 0 };
+  });
+  return c.json({
+    publishId: pub.id,
+    totals: { likes: pub.likeCount, views: pub.viewCount, watchSeconds: pub.watchSeconds },
+    daily,
+  });
+});
+
+// 互动计数定期从缓冲批量写入数据库
+const ENGAGEMENT_FLUSH_MS = Number(process.env.ENGAGEMENT_FLUSH_MS || 10 * 1000);
+setInterval(() => {
+  engagement.flush().catch((e) => console.error('[feed] engagement flush failed:', e instanceof Error ? e.message : e));
+}, ENGAGEMENT_FLUSH_MS).unref();
+
+// 领域事件：发送 outbox；用户注销后下架其内容、清理关注和点赞
+startEventRelay(prisma);
+startEventConsumer(prisma, 'feed-events', {
+  'user.deleted': async (event, { tx, afterCommit }) => {
+    const { userId } = event.payload;
+    const pubs = await tx.publish.findMany({ where: { authorId: userId, status: { not: 'removed' } } });
+    for (const pub of pubs) await removePublish(tx, pub);
+    await tx.follow.deleteMany({ where: { OR: [{ followerId: userId }, { followeeId: userId }] } });
+    // 尚未导入 comments-service 的旧回复
+    await tx.reply.deleteMany({ where: { authorId: userId } });
+    // 点赞记录随事务删除；与取消点赞相同，-1 进入计数缓冲（和尚未落库的 +1 一起写入），
+    // 但要等事务提交后再写 Redis，事务回滚重试时不会重复减
+    const likes = await tx.$queryRaw<{ publishId: string }[]>`DELETE FROM "PublishLike" WHERE "userId" = ${userId} RETURNING "publishId"`;
+    afterCommit(() => engagement.likesRemoved(likes.map((l) => l.publishId)));
+  },
+});
+
+// 推荐排序后台任务
+const RANK_INTERVAL_MS = Number(process.env.RANK_INTERVAL_MS || 60 * 1000);
+const runRanking = () => recomputeRanking(prisma, redis).catch((e) => console.error('[feed] ranking failed:', e instanceof Error ? e.message : e));
+setTimeout(runRanking, 5000).unref();
+setInterval(runRanking, RANK_INTERVAL_MS).unref();
+
+// 定时发布：到期后自动发布；顺带中止过期的上传
+const SCHEDULER_INTERVAL_MS = Number(process.env.FEED_SCHEDULER_INTERVAL_MS || 30 * 1000);
+setInterval(() => {
+  uploads.sweepStale().catch((e) => console.error('[feed] stale upload sweep failed:', e instanceof Error ? e.message : e));
+  publishDue(prisma)
+    .then((ids) => ids.forEach(invalidateCommentRoom))
+    .catch((e) => console.error('[feed] scheduled publish failed:', e instanceof Error ? e.message : e));
+}, SCHEDULER_INTERVAL_MS).unref();
+
+// --- 关注关系 ---
+const AUTH_BASE = (process.env.AUTH_BASE || 'http://localhost:4002').replace(/\/$/, '');
+
+async function userExists(userId: string) {
+  try {
+    const res = await fetch(`${AUTH_BASE}/users/${encodeURIComponent(userId)}`);
+    return res.ok;
+  } catch { return false; }
+}
+
+app.post('/users/:id/follow', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const followeeId = c.req.param('id');
+  if (followeeId === auth.userId) return c.json({ error: 'cannot follow yourself' }, 400);
+  if (!(await userExists(followeeId))) return c.json({ error: 'user not found' }, 404);
+  await prisma.follow.upsert({
+    where: { followerId_followeeId: { followerId: auth.userId, followeeId } },
+    create: { followerId: auth.userId, followeeId },
+    update: {},
+  });
+  return c.json({ following: true });
+});
+
+app.delete('/users/:id/follow', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  await prisma.follow.deleteMany({ where: { followerId: auth.userId, followeeId: c.req.param('id') } });
+  return c.json({ following: false });
+});
+
+// 粉丝 / 关注列表（最新关注在前，游标分页）
+function followList(side: 'followers' | 'following') {
+  return async (c: any) => {
+    const userId = c.req.param('id');
+    const limit = parseLimit(c.req.query('limit'), 20, 1000);
+    const cursor = decodeCursor(c.req.query('cursor'));
+    if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+    const own = side === 'followers' ? { followeeId: userId } : { followerId: userId };
+    const rows = await prisma.follow.findMany({ where: { AND: [own, cursor ? keysetWhere(cursor, 'desc') : {}] }, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], take: limit + 1 });
+    const page = rows.slice(0, limit);
+    const items = page.map((f) => ({ userId: side === 'followers' ? f.followerId : f.followeeId, followedAt: f.createdAt }));
+    const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1]) : null;
+    return c.json({ items, nextCursor });
+  };
+}
+app.get('/users/:id/followers', followList('followers'));
+app.get('/users/:id/following', followList('following'));
+
+// 关注数；登录时附带当前用户是否已关注
+app.get('/users/:id/follow-stats', async (c) => {
+  const userId = c.req.param('id');
+  const auth = await verify(c);
+  const [followers, following, mine] = await Promise.all([
+    prisma.follow.count({ where: { followeeId: userId } }),
+    prisma.follow.count({ where: { followerId: userId } }),
+    auth ? prisma.follow.findUnique({ where: { followerId_followeeId: { followerId: auth.userId, followeeId: userId } } }) : null,
+  ]);
+  return c.json({ userId, followers, following, ...(auth ? { isFollowing: !!mine } : {}) });
+});
+
+// 是否关注：200 表示 followerId 关注了 :id，否则 404（comments-service 用于“仅关注者评论”）
+app.get('/users/:id/followers/:followerId', async (c) => {
+  const f = await prisma.follow.findUnique({ where: { followerId_followeeId: { followerId: c.req.param('followerId'), followeeId: c.req.param('id') } } });
+  if (!f) return c.json({ following: false }, 404);
+  return c.json({ following: true, followedAt: f.createdAt });
+});
+
+// 回复统一存储在 comments-service 的评论线程中（parent/root/depth），这里只做转发
+
+async function forward(res: Response) {
+  const body = await res.json().catch(() => ({ error: 'bad upstream response' }));
+  return new Response(JSON.stringify(body), { status: res.status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// 回复某条评论：父评论必须存在于同一个发布下（由 comments-service 校验）
 const replySchema = z.object({ publishId: z.string().min(1), commentId: z.string().min(1), content: z.string().min(1).max(2000) });
 app.post('/reply', async (c) => {
-  const auth = verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
   const body = await c.req.json().catch(() => ({}));
   const parsed = replySchema.safeParse(body);
   if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
-  const created = await prisma.reply.create({ data: { publishId: parsed.data.publishId, commentId: parsed.data.commentId, content: parsed.data.content, authorId: auth.userId } });
-  return c.json(created);
+  const res = await fetch(`${COMMENTS_BASE}/comments?persist=1`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: c.req.header('authorization') || '',
+      // 带上内部令牌，comments-service 才按这里算出的客户端 IP 限流，而不是 feed-service 自己的地址
+      'x-internal-token': process.env.INTERNAL_API_TOKEN || '',
+      'x-forwarded-for': clientIp(c),
+    },
+    body: JSON.stringify({ videoId: parsed.data.publishId, replyToId: parsed.data.commentId, content: parsed.data.content }),
+  }).catch(() => null);
+  if (!res) return c.json({ error: 'comments-service unavailable' }, 502);
+  return forward(res);
 });
 
-// 列出某个发布下的回复
+// 回复列表：commentId 返回该评论及其分页子回复；只给 publishId 时返回该发布下的评论
 app.get('/replies', async (c) => {
+  const commentId = c.req.query('commentId');
   const publishId = c.req.query('publishId');
-  if (!publishId) return c.json({ error: 'publishId required' }, 400);
-  const items = await prisma.reply.findMany({ where: { publishId }, orderBy: { createdAt: 'asc' } });
-  return c.json({ items });
+  if (!commentId && !publishId) return c.json({ error: 'commentId or publishId required' }, 400);
+  const qs = new URLSearchParams();
+  for (const k of ['limit', 'cursor']) { const v = c.req.query(k); if (v) qs.set(k, v); }
+  let url: string;
+  if (commentId) {
+    if (publishId) qs.set('videoId', publishId);
+    url = `${COMMENTS_BASE}/comments/${encodeURIComponent(commentId)}/thread?${qs}`;
+  } else {
+    qs.set('videoId', publishId!);
+    url = `${COMMENTS_BASE}/comments?${qs}`;
+  }
+  const res = await fetch(url).catch(() => null);
+  if (!res) return c.json({ error: 'comments-service unavailable' }, 502);
+  return forward(res);
 });
 
 const port = Number(process.env.PORT || 4004);
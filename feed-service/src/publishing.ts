@@ -0,0 +1,63 @@
+import { PrismaClient, Publish } from '@prisma/client';
+import { createEvent, outboxRecord } from '@yoom/events';
+
+// 发布生命周期：
+//   draft -> scheduled -> published，draft -> published，scheduled/published -> draft（撤回）
+//   任意状态 -> removed（DELETE，软删除，不可恢复）
+// 可见性：public 出现在列表中；unlisted 只能通过 id 访问；private 只有作者可见。
+// 非 published 的内容、以及视频还没处理完（processingStatus 不是 ready）的内容同样只有作者可见。
+
+export const PUBLISH_STATUSES = ['draft', 'scheduled', 'published', 'removed'] as const;
+export const VISIBILITIES = ['public', 'unlisted', 'private'] as const;
+export type PublishStatus = (typeof PUBLISH_STATUSES)[number];
+export type Visibility = (typeof VISIBILITIES)[number];
+
+export function canView(pub: Pick<Publish, 'authorId' | 'status' | 'visibility' | 'processingStatus'>, viewerId: string | null) {
+  if (pub.status === 'removed') return false;
+  if (viewerId && pub.authorId === viewerId) return true;
+  return pub.status === 'published' && pub.visibility !== 'private' && pub.processingStatus === 'ready';
+}
+
+export type StatusPatch = { status?: Exclude<PublishStatus, 'removed'>; publishAt?: string | null };
+export type PlanResult = { ok: true; data: Partial<Pick<Publish, 'status' | 'publishAt' | 'publishedAt'>> } | { ok: false; error: string };
+
+// 根据请求计算状态相关字段；只给 publishAt 时，草稿会变为定时发布
+export function planStatusChange(current: Pick<Publish, 'status' | 'publishAt'>, patch: StatusPatch, now = new Date()): PlanResult {
+  const publishAt = patch.publishAt === undefined ? current.publishAt : patch.publishAt ? new Date(patch.publishAt) : null;
+  let status = patch.status ?? current.status;
+  if (!patch.status && patch.publishAt && current.status === 'draft') status = 'scheduled';
+  if (status === 'scheduled') {
+    if (!publishAt) return { ok: false, error: 'publishAt required for scheduled' };
+    if (publishAt.getTime() <= now.getTime()) return { ok: false, error: 'publishAt must be in the future' };
+    return { ok: true, data: { status, publishAt } };
+  }
+  if (status === 'published') {
+    // 已发布的保持原发布时间
+    return { ok: true, data: current.status === 'published' ? { status } : { status, publishAt: null, publishedAt: now } };
+  }
+  return { ok: true, data: { status, publishAt } };
+}
+
+// 发布相关的领域事件
+export function publishEvent(type: 'publish.created' | 'publish.deleted', pub: Publish) {
+  if (type === 'publish.deleted') return createEvent(type, { publishId: pub.id, authorId: pub.authorId });
+  return createEvent(type, { publishId: pub.id, authorId: pub.authorId, title: pub.title, status: pub.status, visibility: pub.visibility, publishedAt: pub.publishedAt?.toISOString() ?? null });
+}
+
+// 发布所有到期的定时内容；条件更新保证多实例下只发布一次，
+// publish.created 与状态变更在同一事务中写入 outbox
+export async function publishDue(prisma: PrismaClient, now = new Date()) {
+  const due = await prisma.publish.findMany({ where: { status: 'scheduled', publishAt: { lte: now } }, select: { id: true, publishAt: true }, take: 500 });
+  const published: string[] = [];
+  for (const p of due) {
+    const done = await prisma.$transaction(async (tx) => {
+      const res = await tx.publish.updateMany({ where: { id: p.id, status: 'scheduled' }, data: { status: 'published', publishedAt: p.publishAt ?? now } });
+      if (res.count === 0) return false;
+      const pub = await tx.publish.findUniqueOrThrow({ where: { id: p.id } });
+      await tx.outboxEvent.create({ data: outboxRecord(publishEvent('publish.created', pub), pub.id) });
+      return true;
+    });
+    if (done) published.push(p.id);
+  }
+  return published;
+}
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ageBucket, compareScored, DEFAULT_WEIGHTS, diversify, rankPublishes, rankScored, RankSignals, scoreAtBucket, scorePublish } from './ranking';
+
+const NOW = new Date('2026-10-01T12:00:00.000Z');
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 3600 * 1000);
+const signals = (over: Partial<RankSignals> = {}): RankSignals => ({
+  id: 'p1', authorId: 'a1', publishedAt: NOW, recentComments: 0, likes: 0, views: 0, ...over,
+});
+
+test('scores a fresh post with no engagement as 1 / baseHours^gravity', () => {
+  assert.equal(scorePublish(signals(), NOW), 1 / Math.pow(2, 1.5));
+});
+
+test('weights comments, likes and log2 views', () => {
+  // engagement = 3*2 + 2*5 + log2(1 + 7) = 19
+  const s = signals({ recentComments: 2, likes: 5, views: 7, publishedAt: hoursAgo(2) });
+  assert.equal(scorePublish(s, NOW), 20 / Math.pow(4, 1.5));
+});
+
+test('decays with age by (ageHours + baseHours)^gravity', () => {
+  const fresh = scorePublish(signals({ likes: 10 }), NOW);
+  const dayOld = scorePublish(signals({ likes: 10, publishedAt: hoursAgo(24) }), NOW);
+  assert.equal(dayOld, 21 / Math.pow(26, 1.5));
+  assert.ok(Math.abs(fresh / dayOld - Math.pow(13, 1.5)) < 1e-9);
+});
+
+test('treats posts dated in the future as brand new', () => {
+  const future = signals({ publishedAt: new Date(NOW.getTime() + 3600 * 1000) });
+  assert.equal(scorePublish(future, NOW), scorePublish(signals(), NOW));
+});
+
+test('honours custom weights', () => {
+  const s = signals({ likes: 4, publishedAt: hoursAgo(1) });
+  assert.equal(scorePublish(s, NOW, { ...DEFAULT_WEIGHTS, like: 1, gravity: 1, baseHours: 1 }), 5 / 2);
+});
+
+test('breaks score ties by id', () => {
+  const items = [{ id: 'b', score: 1 }, { id: 'a', score: 1 }, { id: 'c', score: 2 }];
+  assert.deepEqual(items.sort(compareScored).map((i) => i.id), ['c', 'a', 'b']);
+});
+
+test('limits posts per author within the window and keeps everything', () => {
+  const sorted = [
+    { id: '1', authorId: 'x' }, { id: '2', authorId: 'x' }, { id: '3', authorId: 'x' },
+    { id: '4', authorId: 'y' }, { id: '5', authorId: 'x' },
+  ];
+  assert.deepEqual(diversify(sorted, { window: 3, maxPerAuthor: 1 }).map((i) => i.id), ['1', '4', '2', '3', '5']);
+});
+
+// The straightforward quadratic version diversify() must agree with
+function diversifyReference<T extends { authorId: string }>(sorted: T[], window: number, maxPerAuthor: number) {
+  const pending = sorted.slice();
+  const out: T[] = [];
+  while (pending.length > 0) {
+    const recent = window > 1 ? out.slice(-(window - 1)) : [];
+    let pick = pending.findIndex((item) => recent.filter((r) => r.authorId === item.authorId).length < maxPerAuthor);
+    if (pick < 0) pick = 0;
+    out.push(pending.splice(pick, 1)[0]);
+  }
+  return out;
+}
+
+test('diversifies like the one-by-one scan', () => {
+  let seed = 7;
+  const next = () => (seed = (seed * 1103515245 + 12345) % 2147483648);
+  for (const [window, maxPerAuthor, authors] of [[10, 2, 5], [3, 1, 2], [5, 2, 40], [1, 1, 3]]) {
+    const sorted = Array.from({ length: 300 }, (_, i) => ({ id: String(i), authorId: `a${next() % authors}` }));
+    assert.deepEqual(diversify(sorted, { window, maxPerAuthor }).map((i) => i.id), diversifyReference(sorted, window, maxPerAuthor).map((i) => i.id));
+  }
+});
+
+test('scores by the start of the age bucket', () => {
+  const s = signals({ likes: 3, publishedAt: hoursAgo(5.5) });
+  assert.equal(ageBucket(s.publishedAt, NOW), 5);
+  assert.equal(ageBucket(s.publishedAt, NOW, 2), 2);
+  assert.equal(scoreAtBucket(s, 5), 7 / Math.pow(7, 1.5));
+  assert.equal(scoreAtBucket(s, 2, 2), 7 / Math.pow(6, 1.5));
+});
+
+test('ranks precomputed scores with the same rules', () => {
+  const items = [{ id: 'a', authorId: 'x', score: 3 }, { id: 'b', authorId: 'x', score: 2 }, { id: 'c', authorId: 'y', score: 1 }];
+  assert.deepEqual(rankScored(items, { window: 2, maxPerAuthor: 1 }).map((r) => [r.id, r.rank]), [['a', 1], ['c', 2], ['b', 3]]);
+});
+
+test('ranks the same inputs identically, numbered from 1', () => {
+  const input = [
+    signals({ id: 'old', authorId: 'a', likes: 50, publishedAt: hoursAgo(72) }),
+    signals({ id: 'new', authorId: 'b', likes: 5, publishedAt: hoursAgo(1) }),
+    signals({ id: 'mid', authorId: 'c', recentComments: 10, publishedAt: hoursAgo(12) }),
+  ];
+  const first = rankPublishes(input, NOW);
+  assert.deepEqual(first.map((r) => [r.id, r.rank]), [['new', 1], ['mid', 2], ['old', 3]]);
+  assert.deepEqual(rankPublishes([...input].reverse(), NOW), first);
+});
@@ -0,0 +1,134 @@
+// “为你推荐”排序。纯函数，不读时钟、不访问数据库：相同输入永远得到相同结果，
+// 方便用固定数据做单元测试。后台任务（rankingJob.ts）负责收集信号并落库。
+
+export type RankSignals = {
+  id: string;
+  authorId: string;
+  publishedAt: Date;
+  recentComments: number; // 最近 RANK_COMMENT_WINDOW_HOURS 小时的评论数
+  likes: number;
+  views: number;
+};
+
+export type RankWeights = {
+  comment: number;
+  like: number;
+  view: number; // 作用于 log2(1 + views)，避免播放量压过互动
+  gravity: number; // 时间衰减指数，越大新内容越占优
+  baseHours: number; // 防止刚发布的内容分母过小
+};
+
+export const DEFAULT_WEIGHTS: RankWeights = { comment: 3, like: 2, view: 1, gravity: 1.5, baseHours: 2 };
+
+// score = (互动分 + 1) / (发布小时数 + baseHours)^gravity
+export function scorePublish(s: RankSignals, now: Date, w: RankWeights = DEFAULT_WEIGHTS): number {
+  const engagement = w.comment * s.recentComments + w.like * s.likes + w.view * Math.log2(1 + s.views);
+  const ageHours = Math.max(now.getTime() - s.publishedAt.getTime(), 0) / 3600000;
+  return (engagement + 1) / Math.pow(ageHours + w.baseHours, w.gravity);
+}
+
+// 分数相同按 id 排，保证顺序稳定
+export function compareScored(a: { id: string; score: number }, b: { id: string; score: number }) {
+  return b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+export type DiversityRules = {
+  window: number; // 任意连续 window 条里
+  maxPerAuthor: number; // 同一作者最多 maxPerAuthor 条
+};
+
+export const DEFAULT_DIVERSITY: DiversityRules = { window: 10, maxPerAuthor: 2 };
+
+// 最小堆（存 sorted 的下标），diversify 用来找各作者排在最前的一条
+function heapPush(heap: number[], v: number) {
+  let i = heap.push(v) - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent] <= v) break;
+    heap[i] = heap[parent];
+    i = parent;
+  }
+  heap[i] = v;
+}
+
+function heapPop(heap: number[]): number | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || last === undefined) return top;
+  let i = 0;
+  for (;;) {
+    let child = 2 * i + 1;
+    if (child >= heap.length) break;
+    if (child + 1 < heap.length && heap[child + 1] < heap[child]) child++;
+    if (heap[child] >= last) break;
+    heap[i] = heap[child];
+    i = child;
+  }
+  heap[i] = last;
+  return top;
+}
+
+// 贪心重排：每个位置取分数最高、且不违反作者多样性规则的一条。
+// 只剩同一作者时放宽规则，保证不丢内容。输入需已按 compareScored 排好。
+// 内容按作者分桶，堆里只放每个作者排在最前的一条；每次最多跳过窗口内已满额的
+// 作者（少于 window 个），整体 O(n · window · log 作者数)。
+export function diversify<T extends { authorId: string }>(sorted: T[], rules: DiversityRules = DEFAULT_DIVERSITY): T[] {
+  const byAuthor = new Map<string, number[]>();
+  sorted.forEach((item, i) => {
+    const list = byAuthor.get(item.authorId);
+    if (list) list.push(i);
+    else byAuthor.set(item.authorId, [i]);
+  });
+  const nextOf = new Map<string, number>(); // 作者 -> byAuthor 里下一条的位置
+  const heads: number[] = [];
+  for (const list of byAuthor.values()) heapPush(heads, list[0]);
+
+  const recent = new Map<string, number>(); // 最近 window - 1 条里每个作者的条数
+  const span = Math.max(rules.window - 1, 0);
+  const out: T[] = [];
+  while (heads.length > 0) {
+    const skipped: number[] = [];
+    let pick: number | undefined;
+    while (heads.length > 0) {
+      const i = heapPop(heads)!;
+      if ((recent.get(sorted[i].authorId) ?? 0) < rules.maxPerAuthor) { pick = i; break; }
+      skipped.push(i);
+    }
+    // 所有作者都已满额：取剩余里排最前的一条
+    if (pick === undefined) pick = skipped.shift()!;
+    for (const i of skipped) heapPush(heads, i);
+
+    const item = sorted[pick];
+    const list = byAuthor.get(item.authorId)!;
+    const next = (nextOf.get(item.authorId) ?? 0) + 1;
+    nextOf.set(item.authorId, next);
+    if (next < list.length) heapPush(heads, list[next]);
+
+    out.push(item);
+    recent.set(item.authorId, (recent.get(item.authorId) ?? 0) + 1);
+    if (out.length > span) {
+      const dropped = out[out.length - 1 - span].authorId;
+      recent.set(dropped, recent.get(dropped)! - 1);
+    }
+  }
+  return out;
+}
+
+// 发布时长按 bucketHours 分桶，同一桶内按桶的起点计分：不管在桶内哪个时刻计算，
+// 分数都一样。后台任务只在信号变化或跨桶时重新计分
+export function ageBucket(publishedAt: Date, now: Date, bucketHours = 1) {
+  return Math.floor(Math.max(now.getTime() - publishedAt.getTime(), 0) / (bucketHours * 3600000));
+}
+
+export function scoreAtBucket(s: RankSignals, bucket: number, bucketHours = 1, w: RankWeights = DEFAULT_WEIGHTS) {
+  return scorePublish(s, new Date(s.publishedAt.getTime() + bucket * bucketHours * 3600000), w);
+}
+
+// 已计分的内容排序并编号（从 1 开始）
+export function rankScored<T extends { id: string; authorId: string; score: number }>(scored: T[], rules: DiversityRules = DEFAULT_DIVERSITY) {
+  return diversify(scored.slice().sort(compareScored), rules).map((item, i) => ({ ...item, rank: i + 1 }));
+}
+
+export function rankPublishes(signals: RankSignals[], now: Date, w: RankWeights = DEFAULT_WEIGHTS, rules: DiversityRules = DEFAULT_DIVERSITY) {
+  return rankScored(signals.map((s) => ({ id: s.id, authorId: s.authorId, score: scorePublish(s, now, w) })), rules);
+}
@@ -0,0 +1,96 @@
+import { PrismaClient } from '@prisma/client';
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { ageBucket, RankSignals, rankScored, scoreAtBucket } from './ranking';
+
+// 后台重算“为你推荐”：收集窗口内已发布 public 内容的信号，只给信号变化或发布时长
+// 跨过一个桶（RANK_AGE_BUCKET_HOURS）的内容重新计分，其余沿用 PublishRankState 里的分数。
+// 有变化时整体排序，在一个事务里写入一份新快照，读者只会看到完整的快照；没有变化不写。
+// 超过 RANK_SNAPSHOT_KEEP_MINUTES 的旧快照被清理（最新一份始终保留），
+// 正在翻旧快照的客户端在这段时间内不受重算影响。
+// 多个实例同时运行时由 Redis 锁保证同一时间只有一个在算。
+
+const COMMENTS_BASE = process.env.COMMENTS_BASE || 'http://localhost:4001';
+export const RANK_WINDOW_DAYS = Math.max(Number(process.env.RANK_WINDOW_DAYS) || 7, 1);
+export const RANK_COMMENT_WINDOW_HOURS = Math.max(Number(process.env.RANK_COMMENT_WINDOW_HOURS) || 48, 1);
+const VOLUME_BATCH = 500;
+const WRITE_BATCH = 1000;
+export const RANK_SNAPSHOT_KEEP_MS = Math.max(Number(process.env.RANK_SNAPSHOT_KEEP_MINUTES) || 30, 1) * 60 * 1000;
+export const RANK_AGE_BUCKET_HOURS = Math.max(Number(process.env.RANK_AGE_BUCKET_HOURS) || 1, 0.01);
+const RANK_LOCK_KEY = 'rank:lock';
+const RANK_LOCK_MS = 5 * 60 * 1000;
+
+// comments-service 统计的近期评论数；不可用时按 0 计算，不影响其他信号
+async function commentVolumes(ids: string[]): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (let i = 0; i < ids.length; i += VOLUME_BATCH) {
+    try {
+      const res = await fetch(`${COMMENTS_BASE}/rooms/comment-volume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-internal-token': process.env.INTERNAL_API_TOKEN || '' },
+        body: JSON.stringify({ roomIds: ids.slice(i, i + VOLUME_BATCH), hours: RANK_COMMENT_WINDOW_HOURS }),
+      });
+      if (res.ok) Object.assign(counts, ((await res.json()) as { counts?: Record<string, number> }).counts);
+    } catch { }
+  }
+  return counts;
+}
+
+export async function recomputeRanking(prisma: PrismaClient, redis: Redis | null, now = new Date()) {
+  if (!redis) return recompute(prisma, now);
+  const token = randomUUID();
+  if ((await redis.set(RANK_LOCK_KEY, token, 'PX', RANK_LOCK_MS, 'NX')) !== 'OK') return null;
+  try {
+    return await recompute(prisma, now);
+  } finally {
+    // 只释放自己持有的锁
+    await redis.eval("if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0", 1, RANK_LOCK_KEY, token).catch(() => 0);
+  }
+}
+
+async function recompute(prisma: PrismaClient, now: Date) {
+  const since = new Date(now.getTime() - RANK_WINDOW_DAYS * 24 * 3600 * 1000);
+  const candidates = await prisma.publish.findMany({
+    where: { status: 'published', visibility: 'public', processingStatus: 'ready', publishedAt: { gte: since } },
+    select: { id: true, authorId: true, publishedAt: true, likeCount: true, viewCount: true },
+  });
+  const volumes = await commentVolumes(candidates.map((p) => p.id));
+  const previous = new Map((await prisma.publishRankState.findMany()).map((s) => [s.publishId, s]));
+
+  const states = candidates.map((p) => {
+    const signals: RankSignals = { id: p.id, authorId: p.authorId, publishedAt: p.publishedAt, recentComments: volumes[p.id] ?? 0, likes: p.likeCount, views: p.viewCount };
+    const bucket = ageBucket(p.publishedAt, now, RANK_AGE_BUCKET_HOURS);
+    const prev = previous.get(p.id);
+    const unchanged = prev && prev.authorId === p.authorId && prev.likes === signals.likes && prev.views === signals.views
+      && prev.comments === signals.recentComments && prev.ageBucket === bucket;
+    return {
+      changed: !unchanged,
+      state: {
+        publishId: p.id, authorId: p.authorId, likes: signals.likes, views: signals.views, comments: signals.recentComments, ageBucket: bucket,
+        score: unchanged ? prev.score : scoreAtBucket(signals, bucket, RANK_AGE_BUCKET_HOURS),
+      },
+    };
+  });
+  const changed = states.filter((s) => s.changed).map((s) => s.state);
+  const inWindow = new Set(candidates.map((p) => p.id));
+  const dropped = [...previous.keys()].filter((id) => !inWindow.has(id));
+
+  const cutoff = new Date(now.getTime() - RANK_SNAPSHOT_KEEP_MS);
+  const latest = await prisma.publishScore.findFirst({ orderBy: { computedAt: 'desc' }, select: { computedAt: true } });
+  if (changed.length === 0 && dropped.length === 0 && latest) {
+    // 没有新快照时，最新一份再旧也要保留
+    const { count: removed } = await prisma.publishScore.deleteMany({ where: { computedAt: { lt: latest.computedAt < cutoff ? latest.computedAt : cutoff } } });
+    return { ranked: candidates.length, rescored: 0, written: 0, removed };
+  }
+
+  const ranked = rankScored(states.map((s) => ({ id: s.state.publishId, authorId: s.state.authorId, score: s.state.score })));
+  const rows = ranked.map((r) => ({ computedAt: now, publishId: r.id, authorId: r.authorId, score: r.score, rank: r.rank }));
+  await prisma.$transaction(async (tx) => {
+    const stale = [...dropped, ...changed.map((s) => s.publishId)];
+    for (let i = 0; i < stale.length; i += WRITE_BATCH) await tx.publishRankState.deleteMany({ where: { publishId: { in: stale.slice(i, i + WRITE_BATCH) } } });
+    for (let i = 0; i < changed.length; i += WRITE_BATCH) await tx.publishRankState.createMany({ data: changed.slice(i, i + WRITE_BATCH) });
+    for (let i = 0; i < rows.length; i += WRITE_BATCH) await tx.publishScore.createMany({ data: rows.slice(i, i + WRITE_BATCH), skipDuplicates: true });
+  }, { timeout: 60000 });
+  const { count: removed } = await prisma.publishScore.deleteMany({ where: { computedAt: { lt: cutoff } } });
+  return { ranked: ranked.length, rescored: changed.length, written: rows.length, removed };
+}
@@ -0,0 +1,67 @@
+import { Prisma, PrismaClient, Publish } from '@prisma/client';
+import { Cursor } from './cursor';
+
+// 关注时间线：关注作者已发布的 public 内容，按 publishedAt 倒序。
+// 通过 JOIN Follow 在数据库里过滤，关注几千人时也不用把作者 id 全部带进查询。
+
+const LIVE_BASE = process.env.LIVE_BASE || 'http://localhost:4003';
+// 每次请求 live-service 带的作者数（接口上限 10000）
+const LIVE_AUTHORS_CHUNK = 1000;
+
+type LiveStream = { id: string; startedAt: string | null };
+
+export async function followingPage(prisma: PrismaClient, userId: string, limit: number, cursor?: Cursor): Promise<Publish[]> {
+  const after = cursor ? Prisma.sql`AND (p."publishedAt", p."id") < (${new Date(cursor.t)}, ${cursor.id})` : Prisma.empty;
+  return prisma.$queryRaw<Publish[]>`
+    SELECT p.* FROM "Publish" p
+    JOIN "Follow" f ON f."followeeId" = p."authorId"
+    WHERE f."followerId" = ${userId}
+      AND p."status" = 'published' AND p."visibility" = 'public' AND p."processingStatus" = 'ready'
+      ${after}
+    ORDER BY p."publishedAt" DESC, p."id" DESC
+    LIMIT ${limit + 1}`;
+}
+
+// 一批作者的全部直播，跟着 nextCursor 翻页
+async function liveStreamsByAuthors(authorIds: string[]): Promise<LiveStream[]> {
+  const streams: LiveStream[] = [];
+  let cursor: string | undefined;
+  do {
+    const res = await fetch(`${LIVE_BASE}/streams/live-by-authors`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ authorIds, cursor }),
+    });
+    if (!res.ok) throw new Error(`live-by-authors returned ${res.status}`);
+    const page = (await res.json()) as { items?: LiveStream[]; nextCursor?: string | null };
+    streams.push(...(page.items ?? []));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return streams;
+}
+
+// 正在直播的关注作者：关注列表按 followeeId 分批查询，结果按开播时间倒序
+export async function liveStreamsOf(prisma: PrismaClient, userId: string): Promise<unknown[]> {
+  const streams: LiveStream[] = [];
+  let after: string | undefined;
+  for (;;) {
+    const followees = await prisma.follow.findMany({
+      where: { followerId: userId, ...(after ? { followeeId: { gt: after } } : {}) },
+      orderBy: { followeeId: 'asc' },
+      take: LIVE_AUTHORS_CHUNK,
+      select: { followeeId: true },
+    });
+    if (followees.length === 0) break;
+    try {
+      streams.push(...(await liveStreamsByAuthors(followees.map((f) => f.followeeId))));
+    } catch (e) {
+      // live-service 不可用时只返回发布内容
+      console.warn('[feed] live streams of followees unavailable:', e instanceof Error ? e.message : e);
+      return [];
+    }
+    if (followees.length < LIVE_AUTHORS_CHUNK) break;
+    after = followees[followees.length - 1].followeeId;
+  }
+  const startedAt = (s: LiveStream) => (s.startedAt ? Date.parse(s.startedAt) : 0);
+  return streams.sort((a, b) => startedAt(b) - startedAt(a) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+}
@@ -0,0 +1,171 @@
+import { PrismaClient, Upload } from '@prisma/client';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  HeadObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { randomUUID } from 'crypto';
+
+// 视频上传：S3 兼容存储（本地用 MinIO）的分片上传。
+//   1. POST /uploads 创建分片上传，返回每个分片的预签名 PUT 地址
+//   2. 客户端直传分片到存储，记下每片的 ETag
+//   3. POST /uploads/:id/complete 合并分片并核对大小，进入 processing，提交转码和截图任务
+//   4. 任务通过 POST /uploads/:id/jobs 回调，两者都成功后为 ready，任一失败为 failed
+// key 由服务端生成，固定在调用者自己的前缀下；发布时只接受本人已完成上传的 key。
+// 未配置 MEDIA_JOBS_URL 时没有处理任务，合并完成即为 ready（本地开发）。
+
+const S3_BUCKET = process.env.S3_BUCKET || 'yoom';
+const s3 = new S3Client({
+  region: process.env.S3_REGION || 'us-east-1',
+  endpoint: process.env.S3_ENDPOINT || 'http://localhost:9000',
+  // MinIO 需要 path-style 地址
+  forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== '0',
+  credentials: {
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || 'minioadmin',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || 'minioadmin',
+  },
+});
+
+const MEDIA_JOBS_URL = process.env.MEDIA_JOBS_URL || '';
+// 处理任务回调本服务的地址
+const FEED_PUBLIC_BASE = (process.env.FEED_PUBLIC_BASE || `http://localhost:${process.env.PORT || 4004}`).replace(/\/$/, '');
+
+export const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES || 5 * 1024 ** 3);
+// S3 要求除最后一片外每片至少 5 MiB，最多 10000 片
+const MIN_PART_SIZE = 5 * 1024 ** 2;
+const PART_SIZE = Math.max(Number(process.env.UPLOAD_PART_SIZE || 16 * 1024 ** 2), MIN_PART_SIZE);
+const MAX_PARTS = 10000;
+export const UPLOAD_URL_TTL_SECONDS = Number(process.env.UPLOAD_URL_TTL_SECONDS || 3600);
+// 超过这个时间仍未完成的上传会被中止
+const STALE_UPLOAD_MS = Number(process.env.UPLOAD_STALE_HOURS || 24) * 3600 * 1000;
+
+export const VIDEO_TYPES: Record<string, string> = { 'video/mp4': 'mp4', 'video/quicktime': 'mov', 'video/webm': 'webm' };
+
+export const userPrefix = (userId: string) => `uploads/users/${userId}/videos/`;
+
+export function ownsKey(userId: string, key: string) {
+  return key.startsWith(userPrefix(userId)) && !key.includes('..');
+}
+
+export type JobResult = {
+  job: 'transcode' | 'thumbnail';
+  status: 'succeeded' | 'failed';
+  outputKey?: string;
+  durationMs?: number;
+  error?: string;
+};
+
+export type Publishable = { ok: true; upload: Upload } | { ok: false; status: 400 | 403; error: string };
+
+export function createUploads(prisma: PrismaClient) {
+  function partCountOf(upload: Pick<Upload, 'size' | 'partSize'>) {
+    return Math.max(Math.ceil(Number(upload.size) / upload.partSize), 1);
+  }
+
+  async function partUrls(upload: Upload, partNumbers?: number[]) {
+    const numbers = partNumbers ?? Array.from({ length: partCountOf(upload) }, (_, i) => i + 1);
+    return Promise.all(numbers.map(async (partNumber) => ({
+      partNumber,
+      url: await getSignedUrl(s3, new UploadPartCommand({ Bucket: S3_BUCKET, Key: upload.key, UploadId: upload.s3UploadId, PartNumber: partNumber }), { expiresIn: UPLOAD_URL_TTL_SECONDS }),
+    })));
+  }
+
+  async function start(userId: string, input: { contentType: string; size: number }) {
+    const partSize = Math.max(PART_SIZE, Math.ceil(input.size / MAX_PARTS));
+    const key = `${userPrefix(userId)}${randomUUID()}.${VIDEO_TYPES[input.contentType]}`;
+    const created = await s3.send(new CreateMultipartUploadCommand({ Bucket: S3_BUCKET, Key: key, ContentType: input.contentType }));
+    if (!created.UploadId) throw new Error('storage returned no UploadId');
+    const upload = await prisma.upload.create({
+      data: { userId, key, s3UploadId: created.UploadId, contentType: input.contentType, size: BigInt(input.size), partSize },
+    });
+    return { upload, parts: await partUrls(upload) };
+  }
+
+  // 合并分片并确认对象大小与申请时一致
+  async function complete(upload: Upload, parts: Array<{ partNumber: number; etag: string }>) {
+    await s3.send(new CompleteMultipartUploadCommand({
+      Bucket: S3_BUCKET,
+      Key: upload.key,
+      UploadId: upload.s3UploadId,
+      MultipartUpload: { Parts: [...parts].sort((a, b) => a.partNumber - b.partNumber).map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })) },
+    }));
+    const head = await s3.send(new HeadObjectCommand({ Bucket: S3_BUCKET, Key: upload.key }));
+    if (BigInt(head.ContentLength ?? -1) !== upload.size) {
+      return setStatus(upload.id, { status: 'failed', error: `size mismatch: expected ${upload.size}, got ${head.ContentLength}`, completedAt: new Date() });
+    }
+    if (!MEDIA_JOBS_URL) return setStatus(upload.id, { status: 'ready', completedAt: new Date() });
+    const processing = await setStatus(upload.id, { status: 'processing', completedAt: new Date() });
+    await submitJobs(processing);
+    return processing;
+  }
+
+  // 提交失败时上传保持 processing，可以由处理系统或人工重新回调
+  async function submitJobs(upload: Upload) {
+    try {
+      const res = await fetch(MEDIA_JOBS_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-internal-token': process.env.INTERNAL_API_TOKEN || '' },
+        body: JSON.stringify({
+          uploadId: upload.id,
+          bucket: S3_BUCKET,
+          key: upload.key,
+          contentType: upload.contentType,
+          jobs: ['transcode', 'thumbnail'],
+          callbackUrl: `${FEED_PUBLIC_BASE}/uploads/${upload.id}/jobs`,
+        }),
+      });
+      if (!res.ok) throw new Error(`media jobs returned ${res.status}`);
+    } catch (e) {
+      console.error(`[feed] submitting media jobs for ${upload.id} failed:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  async function abort(upload: Upload, error = 'aborted') {
+    await s3.send(new AbortMultipartUploadCommand({ Bucket: S3_BUCKET, Key: upload.key, UploadId: upload.s3UploadId })).catch(() => undefined);
+    return setStatus(upload.id, { status: 'failed', error });
+  }
+
+  // 处理任务回调：转码和截图都成功才算 ready；已失败的上传不再改变
+  async function applyJobResult(upload: Upload, result: JobResult) {
+    if (upload.status === 'failed' || upload.status === 'ready') return upload;
+    if (result.status === 'failed') return setStatus(upload.id, { status: 'failed', error: `${result.job}: ${result.error || 'failed'}`.slice(0, 1000) });
+    const now = new Date();
+    const data = result.job === 'transcode'
+      ? { transcodedAt: now, transcodedKey: result.outputKey ?? null, durationMs: result.durationMs ?? upload.durationMs }
+      : { thumbnailAt: now, thumbnailKey: result.outputKey ?? null };
+    await prisma.upload.update({ where: { id: upload.id }, data });
+    // 两个任务可能同时回调，按数据库里的最新状态判断是否都已完成
+    await prisma.upload.updateMany({ where: { id: upload.id, status: 'processing', transcodedAt: { not: null }, thumbnailAt: { not: null } }, data: { status: 'ready' } });
+    return setStatus(upload.id, {});
+  }
+
+  // 更新上传状态，并同步到使用这个 key 的发布
+  async function setStatus(id: string, data: Partial<Upload>) {
+    const upload = await prisma.upload.update({ where: { id }, data });
+    await prisma.publish.updateMany({ where: { videoKey: upload.key }, data: { processingStatus: upload.status, thumbnailKey: upload.thumbnailKey } });
+    return upload;
+  }
+
+  // 发布前校验 videoKey：必须是调用者自己前缀下、已完成上传（处理中或 ready）的 key
+  async function checkPublishable(userId: string, key: string): Promise<Publishable> {
+    if (!ownsKey(userId, key)) return { ok: false, status: 403, error: 'videoKey does not belong to you' };
+    const upload = await prisma.upload.findUnique({ where: { key } });
+    if (!upload || upload.userId !== userId) return { ok: false, status: 400, error: 'unknown videoKey' };
+    if (upload.status === 'uploading') return { ok: false, status: 400, error: 'upload not completed' };
+    if (upload.status === 'failed') return { ok: false, status: 400, error: 'upload failed' };
+    return { ok: true, upload };
+  }
+
+  // 中止长时间未完成的分片上传，释放存储里的分片
+  async function sweepStale(now = Date.now()) {
+    const stale = await prisma.upload.findMany({ where: { status: 'uploading', createdAt: { lt: new Date(now - STALE_UPLOAD_MS) } }, take: 100 });
+    for (const upload of stale) await abort(upload, 'expired');
+    return stale.length;
+  }
+
+  return { start, partUrls, partCountOf, complete, abort, applyJobResult, checkPublishable, sweepStale };
+}
@@ -0,0 +1,183 @@
+import { Hono, Context } from 'hono';
+import { cors } from 'hono/cors';
+import { serve } from '@hono/node-server';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { IncomingMessage, request } from 'http';
+import { Duplex } from 'stream';
+import 'dotenv/config';
+import { createLogger, createMetrics, currentRequestId, readiness, REQUEST_ID_HEADER, requestContext, requestIdFrom } from '@yoom/observability';
+import { COMMENTS_WS_BASE, INTERNAL_ROUTES, Route, ROUTES, Upstream, UPSTREAMS, upstreamPath } from './routes';
+
+// Single public entrypoint: proxies the HTTP routes in ./routes to the
+// services and the comments WebSocket on /ws. Every request gets a request id
+// (passed upstream as x-request-id), an access log line and per-route metrics.
+
+const logger = createLogger('gateway');
+logger.installConsole();
+const metrics = createMetrics();
+const upstreamErrors = metrics.counter('upstream_errors_total', 'Requests the gateway could not forward, by upstream and reason');
+const wsUpgrades = metrics.counter('ws_upgrades_total', 'WebSocket upgrades proxied to comments-service, by result');
+
+const UPSTREAM_TIMEOUT_MS = Number(process.env.GATEWAY_UPSTREAM_TIMEOUT_MS || 30000);
+// Only behind another trusted proxy (load balancer) keep the incoming x-forwarded-for;
+// otherwise clients could choose the ip the services rate-limit on. The services
+// take the last entry, which is the client ip that proxy appended.
+const TRUST_PROXY = process.env.GATEWAY_TRUST_PROXY === '1';
+
+// Connection-level headers (RFC 9110 7.6.1) are not forwarded in either direction
+const HOP_BY_HOP = ['connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'proxy-connection', 'te', 'trailer', 'transfer-encoding', 'upgrade', 'host'];
+// Headers clients may not set: only services and the gateway send these
+const CLIENT_BLOCKED = ['x-internal-token', 'x-forwarded-host', 'x-forwarded-proto', 'x-real-ip'];
+// fetch() already decoded the body; CORS is answered by the gateway itself
+const RESPONSE_BLOCKED = ['content-encoding', 'content-length'];
+
+const app = new Hono();
+
+app.use('*', requestContext({ logger, metrics }));
+app.use('*', cors({
+  origin: process.env.ALLOWED_ORIGIN || '*',
+  allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+  exposeHeaders: [REQUEST_ID_HEADER, 'Retry-After'],
+}));
+
+app.get('/health', (c) => c.json({ ok: true }));
+
+// Ready when every service answers its own /health
+const checkReady = readiness(Object.fromEntries(
+  (Object.keys(UPSTREAMS) as Upstream[]).map((name) => [name, async () => {
+    const res = await fetch(`${UPSTREAMS[name]}/health`);
+    if (!res.ok) throw new Error(`health returned ${res.status}`);
+  }]),
+));
+app.get('/ready', async (c) => {
+  const result = await checkReady();
+  return c.json(result, result.ok ? 200 : 503);
+});
+
+app.get('/metrics', (c) => c.text(metrics.render(), 200, { 'Content-Type': 'text/plain; version=0.0.4' }));
+
+function clientIp(c: Context) {
+  try { return getConnInfo(c).remote.address || ''; } catch { return ''; }
+}
+
+function forwardedFor(incoming: string | undefined, ip: string) {
+  return TRUST_PROXY && incoming ? incoming : ip;
+}
+
+function proxy(route: Route) {
+  return async (c: Context) => {
+    const url = new URL(c.req.url);
+    const target = `${UPSTREAMS[route.upstream]}${upstreamPath(route, c.req.path)}${url.search}`;
+    const headers = new Headers(c.req.raw.headers);
+    for (const h of [...HOP_BY_HOP, ...CLIENT_BLOCKED]) headers.delete(h);
+    headers.set(REQUEST_ID_HEADER, currentRequestId() || '');
+    headers.set('x-forwarded-for', forwardedFor(c.req.header('x-forwarded-for'), clientIp(c)));
+    headers.set('x-forwarded-host', url.host);
+    headers.set('x-forwarded-proto', url.protocol.replace(':', ''));
+
+    const hasBody = c.req.method !== 'GET' && c.req.method !== 'HEAD';
+    let res: Response;
+    try {
+      res = await fetch(target, {
+        method: c.req.method,
+        headers,
+        body: hasBody ? c.req.raw.body : undefined,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+        // Streams the request body instead of buffering it (required by Node's fetch)
+        duplex: 'half',
+      } as RequestInit);
+    } catch (e) {
+      const timedOut = e instanceof Error && e.name === 'TimeoutError';
+      upstreamErrors.inc({ upstream: route.upstream, reason: timedOut ? 'timeout' : 'unavailable' });
+      console.error(`[gateway] ${c.req.method} ${target} failed:`, e instanceof Error ? e.message : e);
+      return c.json({ error: `${route.upstream} ${timedOut ? 'timed out' : 'unavailable'}` }, timedOut ? 504 : 502);
+    }
+
+    const out = new Headers();
+    res.headers.forEach((value, key) => {
+      if (HOP_BY_HOP.includes(key) || RESPONSE_BLOCKED.includes(key) || key.startsWith('access-control-')) return;
+      out.append(key, value);
+    });
+    // The gateway's id is the one the client sees (and the one upstream logged)
+    out.delete(REQUEST_ID_HEADER);
+    return new Response(res.body, { status: res.status, headers: out });
+  };
+}
+
+for (const { method, path } of INTERNAL_ROUTES) {
+  app.on(method, path, (c) => c.json({ error: 'not found' }, 404));
+}
+
+for (const route of ROUTES) {
+  // Separate patterns keep the route label in metrics per prefix
+  app.all(route.prefix, proxy(route));
+  app.all(`${route.prefix}/*`, proxy(route));
+}
+
+app.notFound((c) => c.json({ error: 'not found' }, 404));
+
+// --- WebSocket: GET /ws?roomId=...&token=... -> comments-service ws server ---
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+function proxyUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (url.pathname !== '/ws') {
+    wsUpgrades.inc({ result: 'not_found' });
+    return rejectUpgrade(socket, 404, 'Not Found');
+  }
+  const target = new URL(`${COMMENTS_WS_BASE.replace(/^ws/, 'http')}/${url.search}`);
+  const given = req.headers[REQUEST_ID_HEADER];
+  const requestId = requestIdFrom(Array.isArray(given) ? given[0] : given);
+  const headers: Record<string, string | string[]> = {};
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (value === undefined || CLIENT_BLOCKED.includes(key) || key === 'host') continue;
+    headers[key] = value;
+  }
+  const incomingFor = req.headers['x-forwarded-for'];
+  headers.host = target.host;
+  headers['x-forwarded-for'] = forwardedFor(Array.isArray(incomingFor) ? incomingFor.join(', ') : incomingFor, req.socket.remoteAddress || '');
+  headers[REQUEST_ID_HEADER] = requestId;
+
+  const upstream = request({ hostname: target.hostname, port: target.port, path: `${target.pathname}${target.search}`, method: 'GET', headers });
+  upstream.setTimeout(UPSTREAM_TIMEOUT_MS, () => upstream.destroy(new Error('timed out')));
+  upstream.on('upgrade', (res, upstreamSocket, upstreamHead) => {
+    upstream.setTimeout(0);
+    wsUpgrades.inc({ result: 'ok' });
+    const lines = [`HTTP/1.1 ${res.statusCode} ${res.statusMessage}`];
+    for (let i = 0; i < res.rawHeaders.length; i += 2) lines.push(`${res.rawHeaders[i]}: ${res.rawHeaders[i + 1]}`);
+    socket.write(`${lines.join('\r\n')}\r\n\r\n`);
+    if (upstreamHead.length) socket.write(upstreamHead);
+    if (head.length) upstreamSocket.write(head);
+    upstreamSocket.pipe(socket).pipe(upstreamSocket);
+    const close = () => { socket.destroy(); upstreamSocket.destroy(); };
+    socket.on('error', close);
+    upstreamSocket.on('error', close);
+    socket.on('close', close);
+    upstreamSocket.on('close', close);
+  });
+  // The ws server refused the upgrade (bad room or token)
+  upstream.on('response', (res) => {
+    wsUpgrades.inc({ result: 'rejected' });
+    rejectUpgrade(socket, res.statusCode || 502, res.statusMessage || 'Bad Gateway');
+    res.resume();
+  });
+  upstream.on('error', (e) => {
+    wsUpgrades.inc({ result: 'unavailable' });
+    upstreamErrors.inc({ upstream: 'comments', reason: 'ws' });
+    logger.error('ws upgrade failed', { requestId, error: e.message });
+    rejectUpgrade(socket, 502, 'Bad Gateway');
+  });
+  socket.on('error', () => upstream.destroy());
+  upstream.end();
+}
+
+const port = Number(process.env.PORT || 4000);
+const server = serve({ fetch: app.fetch, port }, () => {
+  console.log(`gateway listening on http://localhost:${port}, ws://localhost:${port}/ws`);
+});
+server.on('upgrade', proxyUpgrade);
@@ -0,0 +1,50 @@
+// Which service handles a public path: each prefix covers itself and everything
+// below it. With `strip` the prefix is removed before forwarding
+// (/auth/login -> /login).
+// Paths not listed here (e.g. live-service's media server /hooks, /metrics)
+// are not reachable through the gateway, and neither are the service-to-service
+// endpoints in INTERNAL_ROUTES that live under a public prefix.
+
+export type Upstream = 'auth' | 'feed' | 'live' | 'comments';
+
+export const UPSTREAMS: Record<Upstream, string> = {
+  auth: (process.env.AUTH_BASE || 'http://localhost:4002').replace(/\/$/, ''),
+  comments: (process.env.COMMENTS_BASE || 'http://localhost:4001').replace(/\/$/, ''),
+  live: (process.env.LIVE_BASE || 'http://localhost:4003').replace(/\/$/, ''),
+  feed: (process.env.FEED_BASE || 'http://localhost:4004').replace(/\/$/, ''),
+};
+
+// comments-service WebSocket server, proxied on GET /ws
+export const COMMENTS_WS_BASE = (process.env.COMMENTS_WS_URL || 'ws://localhost:4005').replace(/\/$/, '');
+
+export type Route = { prefix: string; upstream: Upstream; strip?: boolean };
+
+export const ROUTES: Route[] = [
+  { prefix: '/auth', upstream: 'auth', strip: true },
+  { prefix: '/feeds', upstream: 'feed' },
+  { prefix: '/publish', upstream: 'feed' },
+  { prefix: '/uploads', upstream: 'feed' },
+  { prefix: '/users', upstream: 'feed' },
+  { prefix: '/reply', upstream: 'feed' },
+  { prefix: '/replies', upstream: 'feed' },
+  { prefix: '/streams', upstream: 'live' },
+  { prefix: '/comments', upstream: 'comments' },
+  { prefix: '/rooms', upstream: 'comments' },
+  { prefix: '/notifications', upstream: 'comments' },
+];
+
+// Called only by other services (with x-internal-token, which the gateway
+// strips anyway); answered with 404 so they are not exposed at all
+export const INTERNAL_ROUTES: Array<{ method: string; path: string }> = [
+  { method: 'POST', path: '/comments/import' },
+  { method: 'POST', path: '/rooms/comment-volume' },
+  { method: 'POST', path: '/rooms/:id/invalidate' },
+  { method: 'POST', path: '/rooms/:id/archive' },
+  { method: 'POST', path: '/notifications' },
+  { method: 'POST', path: '/uploads/:id/jobs' },
+];
+
+// Path to request on the upstream for a gateway path matched by `route`
+export function upstreamPath(route: Route, path: string) {
+  return route.strip ? path.slice(route.prefix.length) || '/' : path;
+}
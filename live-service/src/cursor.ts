@@ -0,0 +1,29 @@
+// Opaque keyset cursors: base64url of { t: createdAt in ms, id }. Rows are
+// ordered by (createdAt, id) so pages stay stable while new rows arrive.
+
+export type Cursor = { t: number; id: string };
+
+export function encodeCursor(row: { createdAt: Date | string; id: string }): string {
+  return Buffer.from(JSON.stringify({ t: new Date(row.createdAt).getTime(), id: row.id })).toString('base64url');
+}
+
+// undefined: no cursor given; null: malformed
+export function decodeCursor(raw: string | undefined): Cursor | null | undefined {
+  if (!raw) return undefined;
+  try {
+    const c = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    return typeof c?.t === 'number' && typeof c?.id === 'string' ? { t: c.t, id: c.id } : null;
+  } catch { return null; }
+}
+
+export function parseLimit(raw: string | undefined, fallback: number, max: number) {
+  const n = Math.floor(Number(raw));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, max) : fallback;
+}
+
+// Prisma filter for rows strictly after the cursor in the given direction
+export function keysetWhere(cursor: Cursor, direction: 'asc' | 'desc') {
+  const op = direction === 'desc' ? 'lt' : 'gt';
+  const at = new Date(cursor.t);
+  return { OR: [{ createdAt: { [op]: at } }, { createdAt: at, id: { [op]: cursor.id } }] };
+}
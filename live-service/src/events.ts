@@ -0,0 +1,65 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Kafka } from 'kafkajs';
+import { EventHandlers, EventType, handleEventMessage, OnceFn, OutboxStore, startOutboxRelay, topicsFor } from '@yoom/events';
+
+// Kafka side of the domain events: relays this service's outbox and runs its
+// consumer. Handlers get the transaction that records the event as processed.
+
+export const kafka = new Kafka({
+  clientId: 'yoom-live-service',
+  brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
+});
+
+const OUTBOX_RETENTION_MS = Number(process.env.OUTBOX_RETENTION_HOURS || 72) * 3600 * 1000;
+
+function outboxStore(prisma: PrismaClient): OutboxStore {
+  return {
+    pending: (limit) => prisma.outboxEvent.findMany({ where: { sentAt: null }, orderBy: { createdAt: 'asc' }, take: limit }),
+    markSent: async (ids) => {
+      await prisma.outboxEvent.updateMany({ where: { id: { in: ids } }, data: { sentAt: new Date() } });
+      await prisma.outboxEvent.deleteMany({ where: { sentAt: { lt: new Date(Date.now() - OUTBOX_RETENTION_MS) } } });
+    },
+    markFailed: async (ids, error) => {
+      await prisma.outboxEvent.updateMany({ where: { id: { in: ids } }, data: { attempts: { increment: 1 }, lastError: error.slice(0, 1000) } });
+    },
+  };
+}
+
+export function startEventRelay(prisma: PrismaClient) {
+  return startOutboxRelay(outboxStore(prisma), async () => {
+    const producer = kafka.producer({ idempotent: true });
+    await producer.connect();
+    return producer;
+  }, { name: 'live-outbox' });
+}
+
+export function startEventConsumer(prisma: PrismaClient, groupId: string, handlers: EventHandlers<Prisma.TransactionClient>) {
+  const once: OnceFn<Prisma.TransactionClient> = (eventId, handle) =>
+    prisma.$transaction(async (tx) => {
+      const { count } = await tx.processedEvent.createMany({ data: [{ eventId, consumer: groupId }], skipDuplicates: true });
+      if (count === 0) return false;
+      await handle(tx);
+      return true;
+    }, { timeout: 60000 });
+  const topics = topicsFor(Object.keys(handlers) as EventType[]);
+  const consumer = kafka.consumer({ groupId });
+  const deadLetter = kafka.producer({ idempotent: true });
+
+  // Offsets are committed only after a message was handled (or parked on the
+  // DLQ), so events received before a crash or restart are delivered again
+  async function start() {
+    try {
+      await deadLetter.connect();
+      await consumer.connect();
+      await consumer.subscribe({ topics, fromBeginning: true });
+      await consumer.run({ eachMessage: async ({ message }) => { await handleEventMessage(message.value, handlers, once, { name: groupId, deadLetter }); } });
+    } catch (e) {
+      console.error(`[${groupId}] consumer failed to start, retrying:`, e instanceof Error ? e.message : e);
+      await consumer.disconnect().catch(() => { });
+      await deadLetter.disconnect().catch(() => { });
+      setTimeout(start, 5000).unref();
+    }
+  }
+  start();
+  return consumer;
+}
@@ -1,97 +1,257 @@
 import { Hono } from 'hono';
+import { cors } from 'hono/cors';
 import { serve } from '@hono/node-server';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 import 'dotenv/config';
-import jwt, { JwtPayload } from 'jsonwebtoken';
+import { createAuth } from '@yoom/auth';
+import { decodeCursor, encodeCursor, keysetWhere, parseLimit } from './cursor';
+import { kafka, startEventConsumer, startEventRelay } from './events';
+import { newIngestKey, isIngestKeyExpired, ingestSignature, verifyIngestSignature, transition, sweepReconnecting, RECONNECT_GRACE_MS } from './lifecycle';
+import { createLogger, createMetrics, kafkaCheck, propagateRequestId, readiness, REQUEST_ID_HEADER, requestContext } from '@yoom/observability';
+
+// JSON logs (console.* included) with the request id of the current request,
+// which is also passed on to comments-service calls
+const logger = createLogger('live-service');
+logger.installConsole();
+propagateRequestId();
+const metrics = createMetrics();
 
 const prisma = new PrismaClient();
 const app = new Hono();
 
-const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
 const RTMP_BASE = process.env.LIVE_RTMP_BASE || 'rtmp://localhost:1935'; // e.g. SRS/Nginx-RTMP
 const HLS_BASE = process.env.LIVE_HLS_BASE || 'http://localhost:8080';    // e.g. SRS http server
 const WEBRTC_BASE = process.env.LIVE_WEBRTC_BASE || 'webrtc://localhost'; // e.g. SRS WebRTC
-app.use('*', async (c, next) => {
-  c.header('Access-Control-Allow-Origin', allowedOrigin);
-  c.header('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
-  c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  if (c.req.method === 'OPTIONS') return c.body(null, 204);
-  await next();
-});
+app.use('*', requestContext({ logger, metrics }));
+app.use('*', cors({
+  origin: process.env.ALLOWED_ORIGIN || '*',
+  allowMethods: ['GET', 'POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+  exposeHeaders: [REQUEST_ID_HEADER],
+}));
 
 app.get('/health', (c) => c.json({ ok: true }));
 
-function verify(c: any): { userId: string } | null {
-  const auth = c.req.header('authorization') || c.req.header('Authorization') || '';
-  const token = auth.startsWith('Bearer ') ? auth.slice(7) : '';
-  if (!token) return null;
-  try {
-    const secret = process.env.JWT_SECRET || process.env.AUTH_JWT_SECRET || 'dev-secret';
-    const decoded = jwt.verify(token, secret) as JwtPayload & { sub?: string };
-    if (!decoded?.sub) return null;
-    return { userId: String(decoded.sub) };
-  } catch { return null; }
+// Readiness: Postgres and Kafka (outbox relay, event consumer) are reachable
+const checkReady = readiness({
+  postgres: () => prisma.$queryRaw`SELECT 1`,
+  kafka: kafkaCheck(kafka),
+});
+app.get('/ready', async (c) => {
+  const result = await checkReady();
+  return c.json(result, result.ok ? 200 : 503);
+});
+
+app.get('/metrics', (c) => c.text(metrics.render(), 200, { 'Content-Type': 'text/plain; version=0.0.4' }));
+
+// Access tokens are verified against auth-service's JWKS (shared with the other services)
+const { verify } = createAuth();
+
+// Everything except the ingest key, which only the owner may see
+const PUBLIC_STREAM_FIELDS = { id: true, title: true, description: true, status: true, playbackId: true, startedAt: true, endedAt: true, peakViewers: true, avgViewers: true, createdAt: true, updatedAt: true, authorId: true } as const;
+
+const MAX_INGEST_KEY_TTL_SECONDS = 365 * 24 * 3600;
+const ingestTtlSchema = z.number().int().min(60).max(MAX_INGEST_KEY_TTL_SECONDS).optional();
+const expiryFrom = (ttlSeconds?: number) => (ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000) : null);
+
+// Publish settings handed to the encoder. OBS takes `server` + `streamKey`; the
+// sign param is checked by the on_publish hook.
+function ingestInfo(s: { ingestKey: string; ingestKeyExpiresAt: Date | null }) {
+  const server = `${RTMP_BASE.replace(/\/$/, '')}/live`;
+  const streamKey = `${s.ingestKey}?sign=${ingestSignature(s.ingestKey)}`;
+  return { ingestKey: s.ingestKey, ingestUrl: `${server}/${streamKey}`, server, streamKey, expiresAt: s.ingestKeyExpiresAt };
 }
 
-// Create stream (returns ingest key & playback placeholder)
-const createSchema = z.object({ title: z.string().min(1), description: z.string().optional() });
+const defaultPlaybackId = (ingestKey: string) => `${WEBRTC_BASE.replace(/\/$/, '')}/live/${ingestKey}`;
+
+const COMMENTS_BASE = process.env.COMMENTS_BASE || 'http://localhost:4001';
+
+// Peak and average concurrent viewers over the broadcast, from the chat room's
+// presence stats (kept for a week). Saved by the stream.ended consumer below, so
+// a failure (comments-service down) is retried and finally parked on the DLQ.
+async function saveViewerStats(db: Prisma.TransactionClient, stream: { id: string; startedAt: Date | null; endedAt: Date }) {
+  const res = await fetch(`${COMMENTS_BASE}/rooms/${encodeURIComponent(stream.id)}/presence`, { signal: AbortSignal.timeout(10000) });
+  if (!res.ok) throw new Error(`presence returned ${res.status}`);
+  const p = (await res.json()) as { peak?: number; viewerMs?: number };
+  const durationMs = stream.startedAt ? stream.endedAt.getTime() - stream.startedAt.getTime() : 0;
+  const avgViewers = durationMs > 0 ? Math.round(((p.viewerMs ?? 0) / durationMs) * 100) / 100 : 0;
+  // Recorded once: a replayed event must not overwrite them with expired (empty) stats
+  await db.liveStream.updateMany({ where: { id: stream.id, peakViewers: null }, data: { peakViewers: p.peak ?? 0, avgViewers } });
+}
+
+// Create stream (returns ingest key & playback placeholder); it stays PENDING until the encoder connects
+const createSchema = z.object({ title: z.string().min(1), description: z.string().optional(), ingestKeyTtlSeconds: ingestTtlSchema });
 app.post('/streams', async (c) => {
-  const auth = verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
   const body = await c.req.json().catch(() => ({}));
   const parsed = createSchema.safeParse(body);
   if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
-  const ingestKey = `ing_${Math.random().toString(36).slice(2, 10)}${Date.now().toString(36)}`;
-  const ingestUrl = `${RTMP_BASE.replace(/\/$/, '')}/live/${ingestKey}`;
-  // 默认将播放地址设置为 WebRTC（更低延迟）。如需 HLS 可通过 /status Webhook 覆盖
-  const playbackId = `${WEBRTC_BASE.replace(/\/$/, '')}/live/${ingestKey}`;
-  const created = await prisma.liveStream.create({ data: { title: parsed.data.title, description: parsed.data.description, ingestKey, authorId: auth.userId, status: 'LIVE', playbackId } });
-  return c.json({ id: created.id, ingestKey: created.ingestKey, ingestUrl, status: created.status, playbackId: created.playbackId });
+  const ingestKey = newIngestKey();
+  // 默认将播放地址设置为 WebRTC（更低延迟）。如需 HLS 可通过 /status 覆盖
+  const playbackId = defaultPlaybackId(ingestKey);
+  const created = await prisma.liveStream.create({ data: { title: parsed.data.title, description: parsed.data.description, ingestKey, ingestKeyExpiresAt: expiryFrom(parsed.data.ingestKeyTtlSeconds), authorId: auth.userId, status: 'PENDING', playbackId } });
+  return c.json({ id: created.id, ...ingestInfo(created), status: created.status, playbackId: created.playbackId });
 });
 
 // Get stream by id
 app.get('/streams/:id', async (c) => {
   const id = c.req.param('id');
-  const s = await prisma.liveStream.findUnique({ where: { id } });
+  const s = await prisma.liveStream.findUnique({ where: { id }, select: PUBLIC_STREAM_FIELDS });
   if (!s) return c.json({ error: 'not found' }, 404);
   return c.json(s);
 });
 
-// 返回推流地址（需要登录）
+// 返回推流地址（仅限主播本人）
 app.get('/streams/:id/ingest', async (c) => {
-  const auth = verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
+  const id = c.req.param('id');
+  const s = await prisma.liveStream.findUnique({ where: { id } });
+  if (!s || s.authorId !== auth.userId) return c.json({ error: 'forbidden' }, 403);
+  return c.json({ ...ingestInfo(s), expired: isIngestKeyExpired(s) });
+});
+
+// Replaces the ingest key; the old one is refused by on_publish from now on.
+// Only while no encoder is publishing (PENDING, or RECONNECTING after a drop):
+// the media server would keep an encoder that is LIVE on the old key connected,
+// so a leaked key has to be cut off by ending the stream (POST /streams/:id/status).
+const rotateSchema = z.object({ ingestKeyTtlSeconds: ingestTtlSchema });
+app.post('/streams/:id/ingest/rotate', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
   const id = c.req.param('id');
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = rotateSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
   const s = await prisma.liveStream.findUnique({ where: { id } });
   if (!s || s.authorId !== auth.userId) return c.json({ error: 'forbidden' }, 403);
-  const ingestUrl = `${RTMP_BASE.replace(/\/$/, '')}/live/${s.ingestKey}`;
-  return c.json({ ingestUrl });
+  if (s.status === 'ENDED') return c.json({ error: 'stream has ended' }, 409);
+  if (s.status === 'LIVE') return c.json({ error: 'stream is live; stop the encoder or end the stream before rotating the key' }, 409);
+  const ingestKey = newIngestKey();
+  // The default playback id is derived from the stream name, so it follows the key
+  const playbackId = s.playbackId === defaultPlaybackId(s.ingestKey) ? defaultPlaybackId(ingestKey) : s.playbackId;
+  // Conditional so an encoder that went live in the meantime is not left on the old key
+  const { count } = await prisma.liveStream.updateMany({
+    where: { id, ingestKey: s.ingestKey, status: { in: ['PENDING', 'RECONNECTING'] } },
+    data: { ingestKey, ingestKeyExpiresAt: expiryFrom(parsed.data.ingestKeyTtlSeconds), ingestKeyRotatedAt: new Date(), playbackId },
+  });
+  if (count === 0) return c.json({ error: 'stream changed, try again' }, 409);
+  const updated = await prisma.liveStream.findUniqueOrThrow({ where: { id } });
+  return c.json({ id: updated.id, ...ingestInfo(updated), status: updated.status, playbackId: updated.playbackId });
 });
 
-// List streams
+// List streams (newest first, cursor paged)
 app.get('/streams', async (c) => {
   const onlyLive = c.req.query('live') === '1';
-  const where = onlyLive ? { status: 'LIVE' } : undefined as any;
-  const list = await prisma.liveStream.findMany({ where, orderBy: { createdAt: 'desc' } });
-  return c.json({ items: list });
+  const limit = parseLimit(c.req.query('limit'), 20, 100);
+  const cursor = decodeCursor(c.req.query('cursor'));
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  // A stream waiting for its encoder to reconnect is still shown as live
+  const where = { AND: [onlyLive ? { status: { in: ['LIVE', 'RECONNECTING'] } } : {}, cursor ? keysetWhere(cursor, 'desc') : {}] };
+  const list = await prisma.liveStream.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], take: limit + 1, select: PUBLIC_STREAM_FIELDS });
+  const items = list.slice(0, limit);
+  const nextCursor = list.length > limit ? encodeCursor(items[items.length - 1]) : null;
+  return c.json({ items, nextCursor });
 });
 
-// Webhook to update status & playbackId (from your streaming infra)
-const updateSchema = z.object({ status: z.enum(['PENDING', 'LIVE', 'ENDED']).optional(), playbackId: z.string().optional() });
+// Live streams of the given authors (feed-service's following timeline).
+// Callers split long author lists and follow nextCursor (newest first).
+const LIVE_BY_AUTHORS_PAGE = 100;
+const byAuthorsSchema = z.object({ authorIds: z.array(z.string().min(1)).max(10000), cursor: z.string().optional() });
+app.post('/streams/live-by-authors', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = byAuthorsSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
+  const cursor = decodeCursor(parsed.data.cursor);
+  if (cursor === null) return c.json({ error: 'invalid cursor' }, 400);
+  if (parsed.data.authorIds.length === 0) return c.json({ items: [], nextCursor: null });
+  const list = await prisma.liveStream.findMany({
+    where: { AND: [{ authorId: { in: parsed.data.authorIds }, status: { in: ['LIVE', 'RECONNECTING'] } }, cursor ? keysetWhere(cursor, 'desc') : {}] },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: LIVE_BY_AUTHORS_PAGE + 1,
+    select: PUBLIC_STREAM_FIELDS,
+  });
+  const items = list.slice(0, LIVE_BY_AUTHORS_PAGE);
+  const nextCursor = list.length > LIVE_BY_AUTHORS_PAGE ? encodeCursor(items[items.length - 1]) : null;
+  return c.json({ items, nextCursor });
+});
+
+// Author updates: end the stream and/or override the playback id.
+// Going LIVE only happens through the media server's on_publish hook.
+const updateSchema = z.object({ status: z.literal('ENDED').optional(), playbackId: z.string().optional() });
 app.post('/streams/:id/status', async (c) => {
+  const auth = await verify(c); if (!auth) return c.json({ error: 'unauthorized' }, 401);
   const id = c.req.param('id');
   const body = await c.req.json().catch(() => ({}));
   const parsed = updateSchema.safeParse(body);
   if (!parsed.success) return c.json({ error: 'invalid body' }, 400);
-  const updated = await prisma.liveStream.update({ where: { id }, data: parsed.data });
-  // If stream ended, cleanup ephemeral comments of this room
-  try {
-    if (parsed.data.status === 'ENDED') {
-      const COMMENTS_BASE = process.env.COMMENTS_BASE || 'http://localhost:4001';
-      await fetch(`${COMMENTS_BASE}/comments?videoId=${encodeURIComponent(id)}`, { method: 'DELETE' });
-      // Also purge Redis hot cache list if present (handled in comments-service DELETE)
-    }
-  } catch { /* ignore cleanup errors */ }
-  return c.json(updated);
+  const current = await prisma.liveStream.findUnique({ where: { id } });
+  if (!current) return c.json({ error: 'not found' }, 404);
+  if (current.authorId !== auth.userId) return c.json({ error: 'forbidden' }, 403);
+  if (parsed.data.playbackId) await prisma.liveStream.update({ where: { id }, data: { playbackId: parsed.data.playbackId } });
+  if (parsed.data.status === 'ENDED') {
+    const ended = await transition(prisma, id, 'ENDED');
+    if (!ended) return c.json({ error: `cannot end a stream in status ${current.status}` }, 409);
+    return c.json(ended);
+  }
+  return c.json(await prisma.liveStream.findUnique({ where: { id } }));
+});
+
+// --- Media server callbacks (SRS http_hooks / nginx-rtmp on_publish & on_publish_done) ---
+// SRS posts JSON { action, app, stream, param: '?sign=...' }; nginx-rtmp posts a form
+// with `name` plus the publish URL args. Both treat HTTP 200 (SRS: body "0") as allow.
+async function readHook(c: any): Promise<{ ingestKey: string; sign: string }> {
+  const type = c.req.header('content-type') || '';
+  const body: Record<string, any> = type.includes('application/json')
+    ? await c.req.json().catch(() => ({}))
+    : await c.req.parseBody().catch(() => ({}));
+  const ingestKey = String(body.stream || body.name || '');
+  const param = String(body.param || '');
+  const sign = String(body.sign || new URLSearchParams(param.startsWith('?') ? param.slice(1) : param).get('sign') || '');
+  return { ingestKey, sign };
+}
+
+async function streamForHook(c: any) {
+  const { ingestKey, sign } = await readHook(c);
+  if (!ingestKey || !verifyIngestSignature(ingestKey, sign)) return null;
+  // Rotated keys no longer match any stream
+  return prisma.liveStream.findUnique({ where: { ingestKey } });
+}
+
+app.post('/hooks/on_publish', async (c) => {
+  const stream = await streamForHook(c);
+  if (!stream) return c.text('unknown ingest key or bad signature', 403);
+  if (isIngestKeyExpired(stream)) return c.text('ingest key expired', 403);
+  // A second encoder on a LIVE stream is refused, as is anything on an ENDED one
+  const live = await transition(prisma, stream.id, 'LIVE');
+  if (!live) return c.text(`cannot publish to a stream in status ${stream.status}`, 409);
+  return c.text('0');
+});
+
+app.post('/hooks/on_unpublish', async (c) => {
+  const stream = await streamForHook(c);
+  if (!stream) return c.text('unknown ingest key or bad signature', 403);
+  await transition(prisma, stream.id, RECONNECT_GRACE_MS > 0 ? 'RECONNECTING' : 'ENDED');
+  return c.text('0');
+});
+
+// Streams left RECONNECTING past the grace period are ended
+setInterval(() => {
+  sweepReconnecting(prisma).catch((e) => console.error('[live] reconnect sweep failed:', e instanceof Error ? e.message : e));
+}, Math.min(Math.max(RECONNECT_GRACE_MS / 3, 1000), 10000)).unref();
+
+// Domain events: publish the outbox, and end the streams of deleted users
+startEventRelay(prisma);
+startEventConsumer(prisma, 'live-events', {
+  'user.deleted': async (event) => {
+    const open = await prisma.liveStream.findMany({ where: { authorId: event.payload.userId, status: { not: 'ENDED' } }, select: { id: true } });
+    for (const s of open) await transition(prisma, s.id, 'ENDED');
+  },
+  // Follower notifications and the chat archive are handled by comments-service
+  // from the same events; viewer stats are read back from it here
+  'stream.ended': async (event, tx) => {
+    const { streamId, startedAt, endedAt } = event.payload;
+    await saveViewerStats(tx, { id: streamId, startedAt: startedAt ? new Date(startedAt) : null, endedAt: new Date(endedAt) });
+  },
 });
 
 const port = Number(process.env.PORT || 4003);
@@ -0,0 +1,100 @@
+import { PrismaClient } from '@prisma/client';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createEvent, outboxRecord } from '@yoom/events';
+
+// Stream state machine:
+//   PENDING -> LIVE            media server on_publish
+//   LIVE -> RECONNECTING       on_unpublish, waits RECONNECT_GRACE_MS for the encoder to come back
+//   RECONNECTING -> LIVE       on_publish within the grace period
+//   RECONNECTING -> ENDED      grace period expired (sweeper)
+//   * -> ENDED                 author ends the stream (or on_unpublish without grace)
+// ENDED is terminal.
+//
+// Going LIVE for the first time emits stream.started and reaching ENDED emits
+// stream.ended; the events are written to the outbox in the same transaction
+// as the status change.
+
+export type StreamStatus = 'PENDING' | 'LIVE' | 'RECONNECTING' | 'ENDED';
+
+const TRANSITIONS: Record<StreamStatus, StreamStatus[]> = {
+  PENDING: ['LIVE', 'ENDED'],
+  LIVE: ['RECONNECTING', 'ENDED'],
+  RECONNECTING: ['LIVE', 'ENDED'],
+  ENDED: [],
+};
+
+export const RECONNECT_GRACE_MS = Math.max(Number(process.env.LIVE_RECONNECT_GRACE_MS ?? 30000) || 0, 0);
+// Signs publish URLs; a well-known default would let anyone sign a known ingest key
+const HOOK_SECRET = process.env.LIVE_HOOK_SECRET || '';
+if (!HOOK_SECRET) throw new Error('LIVE_HOOK_SECRET is required');
+
+export function canTransition(from: string, to: StreamStatus) {
+  return (TRANSITIONS[from as StreamStatus] || []).includes(to);
+}
+
+export function newIngestKey() {
+  return `ing_${randomBytes(18).toString('base64url')}`;
+}
+
+export function isIngestKeyExpired(stream: { ingestKeyExpiresAt: Date | null }, now = new Date()) {
+  return !!stream.ingestKeyExpiresAt && stream.ingestKeyExpiresAt.getTime() <= now.getTime();
+}
+
+// Signature appended to the publish URL (?sign=...). The stream name is visible
+// in playback URLs, so knowing the ingest key alone is not enough to publish.
+export function ingestSignature(ingestKey: string) {
+  return createHmac('sha256', HOOK_SECRET).update(ingestKey).digest('hex').slice(0, 32);
+}
+
+export function verifyIngestSignature(ingestKey: string, sign: string) {
+  const expected = Buffer.from(ingestSignature(ingestKey));
+  const given = Buffer.from(sign || '');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+type StreamRef = { id: string; title: string; authorId: string; startedAt: Date | null; endedAt: Date | null };
+export type TransitionHooks = {
+  onLive?: (stream: StreamRef, from: StreamStatus) => Promise<void> | void;
+  onEnded?: (stream: StreamRef) => Promise<void> | void;
+};
+
+// Applies one transition atomically (conditional on the current status).
+// Returns the updated stream, or null if the move is not allowed or lost a race.
+export async function transition(prisma: PrismaClient, id: string, to: StreamStatus, hooks: TransitionHooks = {}) {
+  const current = await prisma.liveStream.findUnique({ where: { id } });
+  if (!current || !canTransition(current.status, to)) return null;
+  const now = new Date();
+  const data =
+    to === 'LIVE' ? { status: to, startedAt: current.startedAt ?? now, disconnectedAt: null }
+    : to === 'RECONNECTING' ? { status: to, disconnectedAt: now }
+    : to === 'ENDED' ? { status: to, endedAt: now, disconnectedAt: null }
+    : { status: to };
+  const event =
+    to === 'LIVE' && current.status === 'PENDING'
+      ? createEvent('stream.started', { streamId: id, authorId: current.authorId, title: current.title, startedAt: (current.startedAt ?? now).toISOString() }, now)
+      : to === 'ENDED'
+        ? createEvent('stream.ended', { streamId: id, authorId: current.authorId, title: current.title, startedAt: current.startedAt?.toISOString() ?? null, endedAt: now.toISOString() }, now)
+        : null;
+  const count = await prisma.$transaction(async (tx) => {
+    const res = await tx.liveStream.updateMany({ where: { id, status: current.status }, data });
+    if (res.count > 0 && event) await tx.outboxEvent.create({ data: outboxRecord(event, id) });
+    return res.count;
+  });
+  if (count === 0) return null;
+  const updated = await prisma.liveStream.findUnique({ where: { id } });
+  try {
+    if (updated && to === 'LIVE' && hooks.onLive) await hooks.onLive(updated, current.status as StreamStatus);
+    if (updated && to === 'ENDED' && hooks.onEnded) await hooks.onEnded(updated);
+  } catch (e) {
+    console.error(`[live] ${to} hook failed for ${id}:`, e instanceof Error ? e.message : e);
+  }
+  return updated;
+}
+
+// Ends streams whose encoder did not come back within the grace period
+export async function sweepReconnecting(prisma: PrismaClient, hooks: TransitionHooks = {}) {
+  const cutoff = new Date(Date.now() - RECONNECT_GRACE_MS);
+  const stale = await prisma.liveStream.findMany({ where: { status: 'RECONNECTING', disconnectedAt: { lte: cutoff } }, select: { id: true } });
+  for (const s of stale) await transition(prisma, s.id, 'ENDED', hooks);
+  return stale.length;
+}
@@ -0,0 +1,131 @@
+import { createPublicKey, verify as verifySignature, KeyObject, JsonWebKey } from 'crypto';
+
+// Shared token verification for every service that trusts auth-service.
+// Tokens are checked against the public keys auth-service publishes at
+// /.well-known/jwks.json, so no service needs a signing secret.
+
+export type AuthUser = { userId: string; sessionId: string; exp: number };
+
+export type AuthOptions = {
+  authBase?: string;       // auth-service base url, default AUTH_BASE or http://localhost:4002
+  jwksUrl?: string;        // default `${authBase}/.well-known/jwks.json`
+  issuer?: string;         // expected `iss`, default AUTH_ISSUER or 'yoom-auth'
+  jwksCacheMs?: number;    // how long fetched keys are trusted before refetching
+  sessionCacheMs?: number; // how long a session liveness answer is cached
+  checkSession?: boolean;  // ask auth-service whether the session was revoked (default true)
+};
+
+// Minimal request shape so any Hono context (or a plain object) can be passed
+export type AuthContext = { req: { header(name: string): string | undefined } };
+
+type Jwk = JsonWebKey & { kid?: string; alg?: string; use?: string };
+type JwtHeader = { alg?: string; kid?: string; typ?: string };
+type JwtClaims = { sub?: string; sid?: string; iss?: string; exp?: number; nbf?: number };
+
+const SUPPORTED_ALGS = new Set(['RS256', 'EdDSA']);
+const CLOCK_SKEW_SECONDS = 5;
+// Unknown kid triggers a refetch (key rotation), but not more often than this
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000;
+
+function decodeSegment<T>(segment: string): T | null {
+  try { return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T; } catch { return null; }
+}
+
+export function bearerToken(c: AuthContext): string {
+  const auth = c.req.header('authorization') || c.req.header('Authorization') || '';
+  return auth.startsWith('Bearer ') ? auth.slice(7) : '';
+}
+
+export function createAuth(opts: AuthOptions = {}) {
+  const authBase = (opts.authBase || process.env.AUTH_BASE || 'http://localhost:4002').replace(/\/$/, '');
+  const jwksUrl = opts.jwksUrl || `${authBase}/.well-known/jwks.json`;
+  const issuer = opts.issuer ?? process.env.AUTH_ISSUER ?? 'yoom-auth';
+  const jwksCacheMs = opts.jwksCacheMs ?? Number(process.env.JWKS_CACHE_MS || 10 * 60 * 1000);
+  const sessionCacheMs = opts.sessionCacheMs ?? Number(process.env.SESSION_CACHE_MS || 15000);
+  const checkSession = opts.checkSession ?? true;
+
+  let keys = new Map<string, { key: KeyObject; alg?: string }>();
+  let fetchedAt = 0;
+  let inflight: Promise<void> | null = null;
+  const sessionCache = new Map<string, { active: boolean; at: number }>();
+
+  async function refreshKeys() {
+    if (!inflight) {
+      inflight = (async () => {
+        try {
+          const res = await fetch(jwksUrl);
+          if (!res.ok) throw new Error(`jwks fetch failed: ${res.status}`);
+          const body = (await res.json()) as { keys?: Jwk[] };
+          const next = new Map<string, { key: KeyObject; alg?: string }>();
+          for (const jwk of body.keys || []) {
+            if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) continue;
+            try { next.set(jwk.kid, { key: createPublicKey({ key: jwk, format: 'jwk' }), alg: jwk.alg }); } catch { /* skip unusable key */ }
+          }
+          keys = next;
+          fetchedAt = Date.now();
+        } finally {
+          inflight = null;
+        }
+      })();
+    }
+    return inflight;
+  }
+
+  async function getKey(kid: string) {
+    const age = Date.now() - fetchedAt;
+    if (age > jwksCacheMs || (!keys.has(kid) && age > JWKS_REFETCH_COOLDOWN_MS)) {
+      try { await refreshKeys(); } catch (e) {
+        // eslint-disable-next-line no-console
+        console.error('[auth] jwks refresh failed:', e instanceof Error ? e.message : e);
+      }
+    }
+    return keys.get(kid) || null;
+  }
+
+  async function isSessionActive(sid: string, token: string): Promise<boolean> {
+    const hit = sessionCache.get(sid);
+    if (hit && Date.now() - hit.at < sessionCacheMs) return hit.active;
+    try {
+      const res = await fetch(`${authBase}/token/introspect`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ token }) });
+      const data = (await res.json().catch(() => ({}))) as { active?: boolean };
+      const active = res.ok && data.active === true;
+      if (sessionCache.size > 10000) sessionCache.clear();
+      sessionCache.set(sid, { active, at: Date.now() });
+      return active;
+    } catch { return false; }
+  }
+
+  // Verify signature, expiry and issuer; then make sure the session is still alive
+  async function verifyToken(token: string): Promise<AuthUser | null> {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    const header = decodeSegment<JwtHeader>(parts[0]);
+    const claims = decodeSegment<JwtClaims>(parts[1]);
+    if (!header || !claims || !header.kid || !header.alg || !SUPPORTED_ALGS.has(header.alg)) return null;
+    const entry = await getKey(header.kid);
+    if (!entry || (entry.alg && entry.alg !== header.alg)) return null;
+    const data = Buffer.from(`${parts[0]}.${parts[1]}`);
+    const signature = Buffer.from(parts[2], 'base64url');
+    let valid = false;
+    try {
+      valid = verifySignature(header.alg === 'EdDSA' ? null : 'sha256', data, entry.key, signature);
+    } catch { return null; }
+    if (!valid) return null;
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= now) return null;
+    if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) return null;
+    if (issuer && claims.iss !== issuer) return null;
+    if (!claims.sub || !claims.sid) return null;
+    if (checkSession && !(await isSessionActive(claims.sid, token))) return null;
+    return { userId: String(claims.sub), sessionId: String(claims.sid), exp: claims.exp };
+  }
+
+  // Middleware: verify the bearer token of a request
+  async function verify(c: AuthContext): Promise<AuthUser | null> {
+    const token = bearerToken(c);
+    if (!token) return null;
+    return verifyToken(token);
+  }
+
+  return { verify, verifyToken };
+}
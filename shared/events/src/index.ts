@@ -0,0 +1,223 @@
+import { randomUUID } from 'crypto';
+
+// Domain events shared between services. Every event travels in the same
+// envelope ({ id, type, version, occurredAt, payload }) on one Kafka topic per
+// aggregate (events.stream, events.publish, events.user), keyed by the
+// aggregate id so events about one entity stay in order.
+//
+// Producers never talk to Kafka inside a request: they insert the envelope into
+// their own OutboxEvent table in the same transaction as the change, and a relay
+// publishes pending rows afterwards. Delivery is at-least-once, so consumers
+// record handled event ids (ProcessedEvent) and skip repeats.
+//
+// Payload changes that are not backwards compatible bump the type's version;
+// consumers skip versions newer than they understand.
+
+export type EventPayloads = {
+  'stream.started': { streamId: string; authorId: string; title: string; startedAt: string };
+  'stream.ended': { streamId: string; authorId: string; title: string; startedAt: string | null; endedAt: string };
+  'publish.created': { publishId: string; authorId: string; title: string | null; status: string; visibility: string; publishedAt: string | null };
+  'publish.deleted': { publishId: string; authorId: string };
+  'user.deleted': { userId: string };
+};
+
+export type EventType = keyof EventPayloads;
+
+export const EVENT_VERSIONS: Record<EventType, number> = {
+  'stream.started': 1,
+  'stream.ended': 1,
+  'publish.created': 1,
+  'publish.deleted': 1,
+  'user.deleted': 1,
+};
+
+export type EventEnvelope<T extends EventType = EventType> = {
+  id: string;
+  type: T;
+  version: number;
+  occurredAt: string;
+  payload: EventPayloads[T];
+};
+
+const TOPIC_PREFIX = process.env.EVENTS_TOPIC_PREFIX || 'events.';
+
+export function topicFor(type: EventType) {
+  return `${TOPIC_PREFIX}${type.slice(0, type.indexOf('.'))}`;
+}
+
+export function topicsFor(types: EventType[]) {
+  return [...new Set(types.map(topicFor))];
+}
+
+export function createEvent<T extends EventType>(type: T, payload: EventPayloads[T], occurredAt = new Date()): EventEnvelope<T> {
+  return { id: randomUUID(), type, version: EVENT_VERSIONS[type], occurredAt: occurredAt.toISOString(), payload };
+}
+
+// Row for the service's OutboxEvent table; insert it in the same transaction
+// as the change it describes. `key` is the aggregate id (Kafka partition key).
+export function outboxRecord(event: EventEnvelope, key: string) {
+  return { id: event.id, type: event.type, topic: topicFor(event.type), key, payload: event as unknown as object, createdAt: new Date(event.occurredAt) };
+}
+
+// Returns null for anything that is not a well-formed envelope of a known type
+export function parseEvent(value: Buffer | string | null | undefined): EventEnvelope | null {
+  if (!value) return null;
+  let data: any;
+  try { data = JSON.parse(value.toString()); } catch { return null; }
+  if (!data || typeof data !== 'object') return null;
+  if (typeof data.id !== 'string' || typeof data.type !== 'string' || !(data.type in EVENT_VERSIONS)) return null;
+  if (!Number.isInteger(data.version) || typeof data.occurredAt !== 'string' || !data.payload || typeof data.payload !== 'object') return null;
+  return data as EventEnvelope;
+}
+
+// --- Outbox relay ---
+
+export type OutboxRow = { id: string; topic: string; key: string; payload: unknown };
+
+// Implemented by each service on top of its OutboxEvent table
+export type OutboxStore = {
+  pending(limit: number): Promise<OutboxRow[]>; // unsent rows, oldest first
+  markSent(ids: string[]): Promise<void>;
+  markFailed(ids: string[], error: string): Promise<void>;
+};
+
+// Structural subset of a kafkajs Producer
+export type EventProducer = {
+  send(record: { topic: string; messages: Array<{ key: string; value: string; headers?: Record<string, string> }> }): Promise<unknown>;
+};
+
+// Publishes one batch of pending rows; returns how many were sent. Rows are
+// only marked sent after Kafka acknowledged them, so a crash in between
+// re-sends them on the next run (consumers deduplicate by event id).
+export async function relayOutbox(store: OutboxStore, producer: EventProducer, batchSize = 100) {
+  const rows = await store.pending(batchSize);
+  if (rows.length === 0) return 0;
+  const byTopic = new Map<string, OutboxRow[]>();
+  for (const row of rows) byTopic.set(row.topic, [...(byTopic.get(row.topic) || []), row]);
+  for (const [topic, batch] of byTopic) {
+    try {
+      await producer.send({
+        topic,
+        messages: batch.map((row) => {
+          const event = row.payload as EventEnvelope;
+          return { key: row.key, value: JSON.stringify(event), headers: { 'event-id': event.id, 'event-type': event.type } };
+        }),
+      });
+    } catch (e) {
+      await store.markFailed(batch.map((r) => r.id), e instanceof Error ? e.message : String(e));
+      throw e;
+    }
+    await store.markSent(batch.map((r) => r.id));
+  }
+  return rows.length;
+}
+
+export type RelayOptions = { intervalMs?: number; batchSize?: number; name?: string };
+
+// Polls the outbox until stopped. The producer is connected lazily and the
+// connection retried on the next tick, so a service starts even while Kafka is down.
+export function startOutboxRelay(store: OutboxStore, connect: () => Promise<EventProducer>, opts: RelayOptions = {}) {
+  const intervalMs = opts.intervalMs ?? Number(process.env.OUTBOX_RELAY_INTERVAL_MS || 1000);
+  const batchSize = opts.batchSize ?? 100;
+  const name = opts.name || 'outbox';
+  let producer: Promise<EventProducer> | null = null;
+  let running = false;
+
+  async function tick() {
+    if (running) return;
+    running = true;
+    try {
+      if (!producer) producer = connect();
+      const p = await producer;
+      // Drain everything that is pending before waiting for the next tick
+      while ((await relayOutbox(store, p, batchSize)) === batchSize);
+    } catch (e) {
+      producer = null;
+      // eslint-disable-next-line no-console
+      console.error(`[${name}] relay failed:`, e instanceof Error ? e.message : e);
+    } finally {
+      running = false;
+    }
+  }
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return { tick, stop: () => clearInterval(timer) };
+}
+
+// --- Consumers ---
+
+// `ctx` is whatever the service's `once` hands to handlers (e.g. a Prisma transaction)
+export type EventHandlers<Ctx> = { [K in EventType]?: (event: EventEnvelope<K>, ctx: Ctx) => Promise<void> };
+
+// Runs `handle` unless `eventId` was already processed by this consumer, and
+// records it as processed only if `handle` succeeds. Returns false for repeats.
+export type OnceFn<Ctx> = (eventId: string, handle: (ctx: Ctx) => Promise<void>) => Promise<boolean>;
+
+export type HandleOptions = { maxAttempts?: number; baseDelayMs?: number; name?: string; deadLetter?: EventProducer };
+
+// Events a consumer gave up on are parked on the event topic's DLQ
+// (events.stream.dlq ...) with these headers, for inspection and replay
+export const DLQ_HEADERS = {
+  consumer: 'x-dlq-consumer',
+  error: 'x-dlq-error',
+  attempts: 'x-dlq-attempts',
+  failedAt: 'x-dlq-failed-at',
+} as const;
+
+export function dlqTopicFor(type: EventType) {
+  return `${topicFor(type)}.dlq`;
+}
+
+// Handles one Kafka message value. Malformed messages, unknown types and newer
+// versions are skipped; a failing handler is retried with backoff and then
+// parked on the DLQ (opts.deadLetter) so one bad event cannot block the
+// partition forever. Without a DLQ, or if parking fails, this throws so the
+// offset is not committed and the event is delivered again.
+export async function handleEventMessage<Ctx>(value: Buffer | string | null | undefined, handlers: EventHandlers<Ctx>, once: OnceFn<Ctx>, opts: HandleOptions = {}) {
+  const name = opts.name || 'events';
+  const event = parseEvent(value);
+  if (!event) {
+    // eslint-disable-next-line no-console
+    console.warn(`[${name}] skipping malformed event`);
+    return 'skipped' as const;
+  }
+  const handler = handlers[event.type] as ((e: EventEnvelope, ctx: Ctx) => Promise<void>) | undefined;
+  if (!handler) return 'skipped' as const;
+  if (event.version > EVENT_VERSIONS[event.type]) {
+    // eslint-disable-next-line no-console
+    console.warn(`[${name}] skipping ${event.type} v${event.version} (understands v${EVENT_VERSIONS[event.type]})`);
+    return 'skipped' as const;
+  }
+  const maxAttempts = Math.max(opts.maxAttempts ?? 5, 1);
+  const baseDelayMs = opts.baseDelayMs ?? 500;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return (await once(event.id, (ctx) => handler(event, ctx))) ? ('handled' as const) : ('duplicate' as const);
+    } catch (e) {
+      if (attempt >= maxAttempts) {
+        const error = e instanceof Error ? e.message : String(e);
+        if (!opts.deadLetter) throw e;
+        await opts.deadLetter.send({
+          topic: dlqTopicFor(event.type),
+          messages: [{
+            key: event.id,
+            value: JSON.stringify(event),
+            headers: {
+              'event-id': event.id,
+              'event-type': event.type,
+              [DLQ_HEADERS.consumer]: name,
+              [DLQ_HEADERS.error]: error.slice(0, 1000),
+              [DLQ_HEADERS.attempts]: String(attempt),
+              [DLQ_HEADERS.failedAt]: new Date().toISOString(),
+            },
+          }],
+        });
+        // eslint-disable-next-line no-console
+        console.error(`[${name}] parked ${event.type} ${event.id} on the DLQ after ${attempt} attempts:`, error);
+        return 'dead_lettered' as const;
+      }
+      await new Promise((resolve) => setTimeout(resolve, baseDelayMs * 2 ** (attempt - 1)));
+    }
+  }
+}
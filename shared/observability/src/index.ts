@@ -0,0 +1,242 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { format } from 'util';
+
+// Logging, request ids, metrics and readiness shared by every service.
+//
+// - Logs are JSON lines ({ time, level, service, msg, requestId, ... }).
+//   installConsole() routes console.* through the logger, so existing
+//   console.error('[x] ...') calls come out structured too. LOG_FORMAT=text
+//   keeps plain console output for local development.
+// - requestContext() takes the caller's x-request-id (or makes one), echoes it
+//   on the response, keeps it in async context for logs and outgoing calls,
+//   and records an access log line plus per-route latency/error metrics.
+// - metrics.render() is the Prometheus text exposition for GET /metrics.
+// - readiness() runs dependency checks (Postgres, Redis, Kafka) for GET /ready.
+// - propagateRequestId() forwards the request id on outgoing fetch() calls.
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+type Level = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const context = new AsyncLocalStorage<{ requestId: string }>();
+
+// Request id of the request being handled, if any; pass it on to other services
+export function currentRequestId(): string | undefined {
+  return context.getStore()?.requestId;
+}
+
+export function createLogger(service: string) {
+  const json = (process.env.LOG_FORMAT || 'json') !== 'text';
+  const original = { log: console.log, warn: console.warn, error: console.error };
+
+  function write(level: Level, msg: string, fields: LogFields = {}) {
+    if (!json) {
+      const extra = Object.keys(fields).length ? ` ${JSON.stringify(fields)}` : '';
+      (level === 'error' ? original.error : level === 'warn' ? original.warn : original.log)(`${msg}${extra}`);
+      return;
+    }
+    const line = JSON.stringify({ time: new Date().toISOString(), level, service, msg, requestId: currentRequestId(), ...fields });
+    (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(`${line}\n`);
+  }
+
+  return {
+    debug: (msg: string, fields?: LogFields) => write('debug', msg, fields),
+    info: (msg: string, fields?: LogFields) => write('info', msg, fields),
+    warn: (msg: string, fields?: LogFields) => write('warn', msg, fields),
+    error: (msg: string, fields?: LogFields) => write('error', msg, fields),
+    // Sends console.log/info/warn/error through this logger (no-op with LOG_FORMAT=text)
+    installConsole() {
+      if (!json) return;
+      console.log = (...args: unknown[]) => write('info', format(...args));
+      console.info = (...args: unknown[]) => write('info', format(...args));
+      console.warn = (...args: unknown[]) => write('warn', format(...args));
+      console.error = (...args: unknown[]) => write('error', format(...args));
+    },
+  };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
+
+// Adds the current request id to outgoing fetch() calls (service-to-service
+// requests), unless the caller already set one
+export function propagateRequestId() {
+  const original = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    const requestId = currentRequestId();
+    if (!requestId) return original(input, init);
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    if (!headers.has(REQUEST_ID_HEADER)) headers.set(REQUEST_ID_HEADER, requestId);
+    return original(input, { ...init, headers });
+  };
+}
+
+// --- Metrics (Prometheus text format) ---
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type Labels = Record<string, string>;
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+const escapeLabel = (v: string) => v.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+const renderLabels = (labels: Labels, extra: Labels = {}) => {
+  const all = { ...labels, ...extra };
+  const parts = Object.entries(all).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+};
+
+export function createMetrics(prefix = '') {
+  const counters = new Map<string, { help: string; values: Map<string, { labels: Labels; value: number }> }>();
+  const histograms = new Map<string, { help: string; buckets: number[]; values: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> }>();
+  const gauges = new Map<string, { help: string; read: () => number }>();
+
+  function counter(name: string, help: string) {
+    const full = prefix + name;
+    if (!counters.has(full)) counters.set(full, { help, values: new Map() });
+    const metric = counters.get(full)!;
+    return {
+      inc(labels: Labels = {}, by = 1) {
+        const key = labelKey(labels);
+        const entry = metric.values.get(key) || { labels, value: 0 };
+        entry.value += by;
+        metric.values.set(key, entry);
+      },
+    };
+  }
+
+  function histogram(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+    const full = prefix + name;
+    if (!histograms.has(full)) histograms.set(full, { help, buckets, values: new Map() });
+    const metric = histograms.get(full)!;
+    return {
+      observe(labels: Labels, value: number) {
+        const key = labelKey(labels);
+        const entry = metric.values.get(key) || { labels, counts: metric.buckets.map(() => 0), sum: 0, count: 0 };
+        metric.buckets.forEach((b, i) => { if (value <= b) entry.counts[i]++; });
+        entry.sum += value;
+        entry.count++;
+        metric.values.set(key, entry);
+      },
+    };
+  }
+
+  // Value read at scrape time (e.g. open WebSocket connections)
+  function gauge(name: string, help: string, read: () => number) {
+    gauges.set(prefix + name, { help, read });
+  }
+
+  function render() {
+    const out: string[] = [];
+    for (const [name, m] of counters) {
+      out.push(`# HELP ${name} ${m.help}`, `# TYPE ${name} counter`);
+      for (const v of m.values.values()) out.push(`${name}${renderLabels(v.labels)} ${v.value}`);
+    }
+    for (const [name, m] of histograms) {
+      out.push(`# HELP ${name} ${m.help}`, `# TYPE ${name} histogram`);
+      for (const v of m.values.values()) {
+        m.buckets.forEach((b, i) => out.push(`${name}_bucket${renderLabels(v.labels, { le: String(b) })} ${v.counts[i]}`));
+        out.push(`${name}_bucket${renderLabels(v.labels, { le: '+Inf' })} ${v.count}`);
+        out.push(`${name}_sum${renderLabels(v.labels)} ${v.sum}`, `${name}_count${renderLabels(v.labels)} ${v.count}`);
+      }
+    }
+    for (const [name, g] of gauges) {
+      let value = NaN;
+      try { value = g.read(); } catch { /* reported as NaN */ }
+      out.push(`# HELP ${name} ${g.help}`, `# TYPE ${name} gauge`, `${name} ${value}`);
+    }
+    return `${out.join('\n')}\n`;
+  }
+
+  return { counter, histogram, gauge, render };
+}
+
+export type Metrics = ReturnType<typeof createMetrics>;
+
+// --- Request middleware ---
+
+// Minimal request shape so any Hono context can be passed (see @yoom/auth)
+export type RequestContext = {
+  req: { method: string; path: string; routePath?: string; header(name: string): string | undefined };
+  res: { status: number };
+  header(name: string, value: string): void;
+};
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// The caller's request id if it is well-formed, otherwise a new one
+export function requestIdFrom(given: string | undefined) {
+  return given && REQUEST_ID_PATTERN.test(given) ? given : randomUUID();
+}
+
+export function requestContext(opts: { logger: Logger; metrics: Metrics; skip?: string[] }) {
+  const requests = opts.metrics.counter('http_requests_total', 'HTTP requests by method, route and status');
+  const errors = opts.metrics.counter('http_request_errors_total', 'HTTP requests that failed with a 5xx status or an exception');
+  const latency = opts.metrics.histogram('http_request_duration_seconds', 'HTTP request latency by method and route');
+  const skip = new Set(opts.skip ?? ['/health', '/ready', '/metrics']);
+
+  return async (c: RequestContext, next: () => Promise<void>) => {
+    const requestId = requestIdFrom(c.req.header(REQUEST_ID_HEADER));
+    c.header(REQUEST_ID_HEADER, requestId);
+    const started = process.hrtime.bigint();
+    let failed = false;
+    try {
+      await context.run({ requestId }, next);
+    } catch (e) {
+      failed = true;
+      throw e;
+    } finally {
+      if (!skip.has(c.req.path)) {
+        const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+        // The route pattern (not the raw path) keeps label cardinality bounded
+        const route = c.req.routePath && c.req.routePath !== '*' && c.req.routePath !== '/*' ? c.req.routePath : 'unmatched';
+        const status = failed ? 500 : c.res.status;
+        const labels = { method: c.req.method, route };
+        requests.inc({ ...labels, status: String(status) });
+        latency.observe(labels, seconds);
+        if (status >= 500) errors.inc(labels);
+        context.run({ requestId }, () => {
+          const fields = { method: c.req.method, path: c.req.path, route, status, durationMs: Math.round(seconds * 1000) };
+          if (status >= 500) opts.logger.error('request failed', fields);
+          else opts.logger.info('request', fields);
+        });
+      }
+    }
+  };
+}
+
+// --- Readiness ---
+
+export type ReadinessCheck = () => Promise<unknown>;
+export type ReadinessResult = { ok: boolean; checks: Record<string, { ok: boolean; ms: number; error?: string }> };
+
+export function readiness(checks: Record<string, ReadinessCheck>, timeoutMs = Number(process.env.READY_TIMEOUT_MS || 2000)) {
+  return async (): Promise<ReadinessResult> => {
+    const entries = await Promise.all(Object.entries(checks).map(async ([name, check]) => {
+      const started = Date.now();
+      let timer: NodeJS.Timeout | undefined;
+      try {
+        await Promise.race([
+          check(),
+          new Promise((_, reject) => { timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs); }),
+        ]);
+        return [name, { ok: true, ms: Date.now() - started }] as const;
+      } catch (e) {
+        return [name, { ok: false, ms: Date.now() - started, error: e instanceof Error ? e.message : String(e) }] as const;
+      } finally {
+        clearTimeout(timer);
+      }
+    }));
+    return { ok: entries.every(([, r]) => r.ok), checks: Object.fromEntries(entries) };
+  };
+}
+
+// Structural subset of a kafkajs client
+export type KafkaLike = { admin(): { connect(): Promise<void>; describeCluster(): Promise<unknown>; disconnect(): Promise<void> } };
+
+export function kafkaCheck(kafka: KafkaLike): ReadinessCheck {
+  return async () => {
+    const admin = kafka.admin();
+    await admin.connect();
+    try { await admin.describeCluster(); } finally { await admin.disconnect().catch(() => undefined); }
+  };
+}